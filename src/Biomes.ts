@@ -0,0 +1,97 @@
+import { BLOCK } from './Blocks';
+
+// Biome definitions. Pure data (no THREE), shared by the generator in the
+// chunk workers and by the main thread (mob spawning, sky tint).
+
+export type Biome = {
+  id: number;
+  name: string;
+  // Point in climate space (temperature, humidity, both -1..1) the biome is centered on
+  temperature: number;
+  humidity: number;
+  // Height curve: baseHeight + shape noise * heightVariation
+  baseHeight: number;
+  heightVariation: number;
+  ridged: boolean; // Sharp ridges instead of rolling hills
+  surfaceBlock: number;
+  fillerBlock: number;
+  treeDensity: number; // Chance per surface block
+  mobSpawns: boolean;
+  skyColor: number; // Daytime sky tint
+  fogColor: number;
+};
+
+export const SEA_LEVEL = 48; // Top water block
+export const SNOW_LINE = 90; // Peaks above this get a snow surface in any biome
+export const FILLER_DEPTH = 3;
+
+export const BIOMES: Record<string, Biome> = {
+  PLAINS: {
+    id: 0, name: 'Plains', temperature: 0.15, humidity: -0.15,
+    baseHeight: 51, heightVariation: 3, ridged: false,
+    surfaceBlock: BLOCK.GRASS, fillerBlock: BLOCK.DIRT,
+    treeDensity: 0.004, mobSpawns: true,
+    skyColor: 0x87ceeb, fogColor: 0x87ceeb
+  },
+  FOREST: {
+    id: 1, name: 'Forest', temperature: 0.15, humidity: 0.3,
+    baseHeight: 53, heightVariation: 6, ridged: false,
+    surfaceBlock: BLOCK.GRASS, fillerBlock: BLOCK.DIRT,
+    treeDensity: 0.05, mobSpawns: true,
+    skyColor: 0x7ec4e0, fogColor: 0x8fbf9a
+  },
+  DESERT: {
+    id: 2, name: 'Desert', temperature: 0.6, humidity: -0.45,
+    baseHeight: 51, heightVariation: 4, ridged: false,
+    surfaceBlock: BLOCK.SAND, fillerBlock: BLOCK.SAND,
+    treeDensity: 0, mobSpawns: true,
+    skyColor: 0xa6d4e8, fogColor: 0xe0d2a8
+  },
+  TUNDRA: {
+    id: 3, name: 'Tundra', temperature: -0.6, humidity: 0.1,
+    baseHeight: 52, heightVariation: 5, ridged: false,
+    surfaceBlock: BLOCK.SNOW, fillerBlock: BLOCK.DIRT,
+    treeDensity: 0.003, mobSpawns: true,
+    skyColor: 0xb4cde0, fogColor: 0xdce6ee
+  },
+  MOUNTAINS: {
+    id: 4, name: 'Mountains', temperature: -0.25, humidity: -0.45,
+    baseHeight: 60, heightVariation: 45, ridged: true,
+    surfaceBlock: BLOCK.STONE, fillerBlock: BLOCK.STONE,
+    treeDensity: 0, mobSpawns: true,
+    skyColor: 0x8cc4e8, fogColor: 0xa8b8c8
+  },
+  OCEAN: {
+    id: 5, name: 'Ocean', temperature: 0, humidity: 0.75,
+    baseHeight: 36, heightVariation: 5, ridged: false,
+    surfaceBlock: BLOCK.SAND, fillerBlock: BLOCK.SAND,
+    treeDensity: 0, mobSpawns: false,
+    skyColor: 0x87ceeb, fogColor: 0x6fa8d0
+  }
+};
+
+const BIOME_LIST = Object.values(BIOMES);
+
+// How far blending reaches in climate space. Smaller = sharper borders.
+const BLEND_WIDTH = 0.02;
+
+export type BiomeWeight = { biome: Biome, weight: number };
+
+// Weights of every biome that contributes to this climate (sum = 1), strongest first.
+// Gaussian falloff around each biome's climate point, so heights blend smoothly across borders.
+export function getBiomeWeights(temperature: number, humidity: number): BiomeWeight[] {
+  const distances = BIOME_LIST.map(b => (b.temperature - temperature) ** 2 + (b.humidity - humidity) ** 2);
+  const nearest = Math.min(...distances);
+
+  const weights: BiomeWeight[] = [];
+  let total = 0;
+  for (let i = 0; i < BIOME_LIST.length; i++) {
+    // Relative to the nearest biome so the exponent never underflows to zero everywhere
+    const weight = Math.exp(-(distances[i] - nearest) / BLEND_WIDTH);
+    if (weight < 0.001) continue;
+    weights.push({ biome: BIOME_LIST[i], weight });
+    total += weight;
+  }
+  for (const w of weights) w.weight /= total;
+  return weights.sort((a, b) => b.weight - a.weight);
+}
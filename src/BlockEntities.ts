@@ -0,0 +1,30 @@
+// Block entities: state kept per block for blocks that are more than an id (furnaces).
+// The World creates one when such a block is placed, ticks it while its column is loaded
+// and saves it in the section's extras (SectionExtras.blockEntities, keyed by block index).
+
+import { BLOCK } from './Blocks';
+import { createFurnace, readFurnace, tickFurnace, type FurnaceState } from './Furnace';
+import type { ItemStack } from './Items';
+
+export type BlockEntity = FurnaceState;
+
+// A fresh entity for the block, null for blocks without one
+export function createBlockEntity(blockId: number): BlockEntity | null {
+  return blockId === BLOCK.FURNACE ? createFurnace() : null;
+}
+
+// An entity from a save, null if it doesn't belong to the block (the block changed, or a newer game wrote it)
+export function readBlockEntity(blockId: number, stored: any): BlockEntity | null {
+  if (blockId === BLOCK.FURNACE && stored?.type === 'furnace') return readFurnace(stored);
+  return null;
+}
+
+// Advances the entity by dt ms; returns whether it changed (and needs saving)
+export function tickBlockEntity(entity: BlockEntity, dt: number): boolean {
+  return tickFurnace(entity, dt);
+}
+
+// What the block drops besides itself when broken
+export function getBlockEntityItems(entity: BlockEntity): ItemStack[] {
+  return [entity.input, entity.fuel, entity.output].filter(stack => stack.id !== 0);
+}
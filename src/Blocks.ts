@@ -0,0 +1,206 @@
+// Block registry: everything the game knows about a block type lives in one declaration.
+// Kept free of THREE/DB imports, the chunk workers read it for meshing and generation.
+
+export type RGB = [number, number, number];
+
+export type BlockSound = 'none' | 'stone' | 'wood' | 'grass' | 'gravel' | 'sand' | 'snow' | 'water' | 'lava';
+
+export type FluidKind = 'water' | 'lava';
+
+export type ToolKind = 'pickaxe' | 'axe' | 'shovel' | 'sword';
+
+export const MAX_FLUID_LEVEL = 7;
+
+export type BlockDefinition = {
+  id: number;
+  name: string; // Shown in the hotbar label and inventory tooltip
+  color: RGB; // Base color of the procedural textures for every face not listed in faceColors
+  faceColors?: { top?: RGB, bottom?: RGB, side?: RGB };
+  texture: string; // Atlas tile (resource pack file name) of every face not listed in faceTextures. Defaults to the lowercase key.
+  faceTextures?: { top?: string, bottom?: string, side?: string };
+  transparent: boolean; // Neighbor faces stay visible
+  solid: boolean; // Collides with the player and mobs
+  fluid: FluidKind | null; // Flows (see Fluids.ts), drawn in the translucent pass
+  fluidLevel: number; // 0 = source, 1-7 = flowing, higher levels are further from the source and lower
+  hardness: number; // Break time in ms by hand, Infinity = unbreakable
+  tool: ToolKind | null; // Breaks faster with this tool (see Items.ts)
+  harvestLevel: number; // 0 = always drops, else only with `tool` of at least this tier level (1 wood, 2 stone, 3 iron)
+  drops: number | null; // Block whose item (Items.ts) is dropped when broken, null = nothing
+  lightEmission: number; // 0-15
+  lightOpacity: number; // Light lost passing through, 15 = blocks light. Defaults from transparency.
+  contactDamage: number; // Damage to the player and mobs inside the block, limited by their hurt cooldown
+  sound: BlockSound;
+};
+
+// Fields most blocks share; a declaration only lists what differs
+const DEFAULTS = {
+  transparent: false,
+  solid: true,
+  fluid: null,
+  fluidLevel: 0,
+  hardness: 1000,
+  tool: null,
+  harvestLevel: 0,
+  lightEmission: 0,
+  contactDamage: 0,
+  sound: 'stone' as BlockSound
+};
+
+// `levels` registers one block per fluid level: ids id..id+levels-1 with fluidLevel counting up from the declared one
+type BlockDeclaration = Partial<BlockDefinition> & Pick<BlockDefinition, 'id' | 'name' | 'color'> & { levels?: number };
+
+const DECLARATIONS = {
+  AIR: { id: 0, name: 'Воздух', color: [1, 1, 1], transparent: true, solid: false, hardness: Infinity, drops: null, sound: 'none' },
+  GRASS: {
+    id: 1, name: 'Блок травы', color: [0.54, 0.27, 0.07],
+    faceColors: { top: [0.33, 0.6, 0.33] }, faceTextures: { top: 'grass_top', side: 'grass_side', bottom: 'dirt' },
+    hardness: 3000, tool: 'shovel', sound: 'grass'
+  },
+  DIRT: { id: 2, name: 'Земля', color: [0.54, 0.27, 0.07], hardness: 3000, tool: 'shovel', sound: 'gravel' },
+  STONE: { id: 3, name: 'Камень', color: [0.5, 0.5, 0.5], hardness: 20000, tool: 'pickaxe', harvestLevel: 1 },
+  BEDROCK: { id: 4, name: 'Бедрок', color: [0.13, 0.13, 0.13], hardness: Infinity },
+  WOOD: {
+    id: 5, name: 'Дерево', color: [0.4, 0.2, 0.0], faceColors: { top: [0.62, 0.45, 0.25], bottom: [0.62, 0.45, 0.25] },
+    faceTextures: { top: 'wood_top', bottom: 'wood_top' }, hardness: 5000, tool: 'axe', sound: 'wood'
+  },
+  LEAVES: { id: 6, name: 'Листва', color: [0.13, 0.55, 0.13], transparent: true, lightOpacity: 1, sound: 'grass' },
+  SAND: { id: 7, name: 'Песок', color: [0.86, 0.8, 0.55], hardness: 3000, tool: 'shovel', sound: 'sand' },
+  SNOW: { id: 8, name: 'Снег', color: [0.95, 0.97, 1.0], tool: 'shovel', sound: 'snow' },
+  WATER: {
+    id: 9, name: 'Вода', color: [0.2, 0.4, 0.85],
+    transparent: true, solid: false, fluid: 'water', hardness: Infinity, drops: null, lightOpacity: 2, sound: 'water'
+  },
+  COAL_ORE: { id: 10, name: 'Угольная руда', color: [0.2, 0.2, 0.2], hardness: 20000, tool: 'pickaxe', harvestLevel: 1 },
+  IRON_ORE: { id: 11, name: 'Железная руда', color: [0.72, 0.58, 0.48], hardness: 25000, tool: 'pickaxe', harvestLevel: 2 },
+  GOLD_ORE: { id: 12, name: 'Золотая руда', color: [0.93, 0.8, 0.2], hardness: 30000, tool: 'pickaxe', harvestLevel: 3 },
+  DIAMOND_ORE: { id: 13, name: 'Алмазная руда', color: [0.35, 0.85, 0.85], hardness: 35000, tool: 'pickaxe', harvestLevel: 3 },
+  LAVA: {
+    id: 14, name: 'Лава', color: [0.95, 0.42, 0.08],
+    transparent: true, solid: false, fluid: 'lava', hardness: Infinity, drops: null,
+    lightEmission: 15, lightOpacity: 15, contactDamage: 4, sound: 'lava'
+  },
+  FLOWING_WATER: {
+    id: 15, levels: MAX_FLUID_LEVEL, fluidLevel: 1, name: 'Вода', color: [0.2, 0.4, 0.85], texture: 'water',
+    transparent: true, solid: false, fluid: 'water', hardness: Infinity, drops: null, lightOpacity: 2, sound: 'water'
+  },
+  FLOWING_LAVA: {
+    id: 22, levels: MAX_FLUID_LEVEL, fluidLevel: 1, name: 'Лава', color: [0.95, 0.42, 0.08], texture: 'lava',
+    transparent: true, solid: false, fluid: 'lava', hardness: Infinity, drops: null,
+    lightEmission: 15, lightOpacity: 15, contactDamage: 4, sound: 'lava'
+  },
+  PLANKS: { id: 29, name: 'Доски', color: [0.72, 0.55, 0.33], hardness: 3000, tool: 'axe', sound: 'wood' },
+  CRAFTING_TABLE: {
+    id: 30, name: 'Верстак', color: [0.55, 0.36, 0.2], faceColors: { top: [0.68, 0.5, 0.3], bottom: [0.72, 0.55, 0.33] },
+    faceTextures: { top: 'crafting_table_top', bottom: 'planks' }, hardness: 4000, tool: 'axe', sound: 'wood'
+  },
+  STONE_BRICKS: { id: 31, name: 'Каменные кирпичи', color: [0.45, 0.45, 0.45], hardness: 20000, tool: 'pickaxe', harvestLevel: 1 },
+  SANDSTONE: { id: 32, name: 'Песчаник', color: [0.85, 0.78, 0.55], hardness: 12000, tool: 'pickaxe', harvestLevel: 1 },
+  FURNACE: {
+    id: 33, name: 'Печь', color: [0.42, 0.42, 0.42], faceColors: { top: [0.5, 0.5, 0.5], bottom: [0.5, 0.5, 0.5] },
+    faceTextures: { top: 'furnace_top', bottom: 'furnace_top' }, hardness: 17500, tool: 'pickaxe', harvestLevel: 1
+  },
+  GLASS: { id: 34, name: 'Стекло', color: [0.8, 0.92, 0.95], transparent: true, hardness: 1500, drops: null, sound: 'stone' }
+} satisfies Record<string, BlockDeclaration>;
+
+// Block IDs
+export const BLOCK = Object.fromEntries(
+  Object.entries(DECLARATIONS).map(([key, decl]) => [key, decl.id])
+) as { readonly [K in keyof typeof DECLARATIONS]: number };
+
+// Indexed by id for the hot paths (meshing, collisions)
+const REGISTRY: BlockDefinition[] = [];
+for (const [key, { levels = 1, ...decl }] of Object.entries(DECLARATIONS) as [string, BlockDeclaration][]) {
+  const transparent = decl.transparent ?? DEFAULTS.transparent;
+  for (let i = 0; i < levels; i++) {
+    const id = decl.id + i;
+    if (REGISTRY[id]) throw new Error(`Duplicate block id ${id}`);
+    REGISTRY[id] = {
+      ...DEFAULTS, drops: id, lightOpacity: transparent ? 0 : 15, texture: key.toLowerCase(), ...decl,
+      id, fluidLevel: (decl.fluidLevel ?? 0) + i
+    };
+  }
+}
+
+// Block id of each fluid by level, index 0 is the source
+const FLUID_BLOCKS: Record<FluidKind, number[]> = { water: [], lava: [] };
+for (const def of REGISTRY) {
+  if (def?.fluid) FLUID_BLOCKS[def.fluid][def.fluidLevel] = def.id;
+}
+
+// Unknown ids (e.g. from a newer save) behave like stone and show up magenta
+const UNKNOWN_BLOCK: BlockDefinition = { ...DEFAULTS, id: -1, name: 'Блок', color: [1, 0, 1], texture: 'unknown', drops: null, lightOpacity: 15 };
+
+export type BlockFace = 'top' | 'bottom' | 'side';
+
+// Atlas tiles in registry order. Derived from the declarations alone, so the chunk
+// workers agree with the main thread's atlas on every tile index without loading images.
+const TILE_NAMES: string[] = [];
+const TILE_INDEX = new Map<string, number>();
+const addTile = (name: string) => {
+  if (!TILE_INDEX.has(name)) {
+    TILE_INDEX.set(name, TILE_NAMES.length);
+    TILE_NAMES.push(name);
+  }
+};
+for (const def of [...REGISTRY.filter(Boolean), UNKNOWN_BLOCK]) {
+  if (def.id === 0) continue; // Air is never drawn
+  for (const face of ['top', 'bottom', 'side'] as BlockFace[]) addTile(getFaceTexture(def, face));
+}
+
+function getFaceTexture(def: BlockDefinition, face: BlockFace): string {
+  return def.faceTextures?.[face] ?? def.texture;
+}
+
+export function getBlockDef(id: number): BlockDefinition {
+  return REGISTRY[id] ?? UNKNOWN_BLOCK;
+}
+
+export function getAllBlocks(): BlockDefinition[] {
+  return REGISTRY.filter(Boolean);
+}
+
+export function isTransparent(id: number): boolean {
+  return getBlockDef(id).transparent;
+}
+
+export function isSolid(id: number): boolean {
+  return getBlockDef(id).solid;
+}
+
+export function getLightOpacity(id: number): number {
+  return getBlockDef(id).lightOpacity;
+}
+
+export function getLightEmission(id: number): number {
+  return getBlockDef(id).lightEmission;
+}
+
+export function getFluidBlock(fluid: FluidKind, level: number): number {
+  return FLUID_BLOCKS[fluid][level];
+}
+
+export function getFaceColor(id: number, face: BlockFace): RGB {
+  const def = getBlockDef(id);
+  return def.faceColors?.[face] ?? def.color;
+}
+
+// Mesher sides (top, bottom, front, ...) map to the three texture faces
+export function getFaceTile(id: number, side: string): number {
+  const face: BlockFace = side === 'top' || side === 'bottom' ? side : 'side';
+  return TILE_INDEX.get(getFaceTexture(getBlockDef(id), face))!;
+}
+
+export function getTileNames(): readonly string[] {
+  return TILE_NAMES;
+}
+
+// First block face drawn with the tile, its colors seed the procedural texture
+export function getTileOwner(tile: number): { def: BlockDefinition, face: BlockFace } {
+  const name = TILE_NAMES[tile];
+  for (const def of [...REGISTRY.filter(Boolean), UNKNOWN_BLOCK]) {
+    for (const face of ['top', 'bottom', 'side'] as BlockFace[]) {
+      if (def.id !== 0 && getFaceTexture(def, face) === name) return { def, face };
+    }
+  }
+  return { def: UNKNOWN_BLOCK, face: 'side' };
+}
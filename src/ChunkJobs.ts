@@ -0,0 +1,46 @@
+import { TerrainGenerator } from './TerrainGenerator';
+import { buildSectionMesh, type MeshData } from './ChunkMesher';
+import { computeColumnLight } from './Lighting';
+import type { WorkerRequest, WorkerResponse } from './WorkerPool';
+
+// The work behind each chunk job: terrain generation, lighting and meshing.
+// Runs in the chunk workers (browser) or on the calling thread (InlineJobRunner, Node).
+
+let generator: TerrainGenerator | null = null;
+
+function meshBuffers(mesh: MeshData): Transferable[] {
+  return [
+    mesh.positions.buffer,
+    mesh.normals.buffer,
+    mesh.uvs.buffer,
+    mesh.tiles.buffer,
+    mesh.colors.buffer,
+    mesh.light.buffer,
+    mesh.indices.buffer
+  ];
+}
+
+// The response and the buffers it can hand over without copying
+export function runChunkRequest(request: WorkerRequest): { response: WorkerResponse, transfer: Transferable[] } {
+  if (request.type === 'generate') {
+    if (!generator || generator.seed !== request.seed) {
+      generator = new TerrainGenerator(request.seed);
+    }
+    const { sections, edits } = generator.generateColumn(request.cx, request.cz);
+    const light = computeColumnLight(sections);
+    return {
+      response: { type: 'generate', jobId: request.jobId, sections, light, edits },
+      transfer: [...sections, ...light].map(s => s.buffer)
+    };
+  } else if (request.type === 'light') {
+    // Columns loaded from the DB: light is not saved, only derived
+    const light = computeColumnLight(request.sections);
+    return { response: { type: 'light', jobId: request.jobId, light }, transfer: light.map(s => s.buffer) };
+  } else {
+    const mesh = buildSectionMesh(request.padded, request.paddedLight, request.ambientOcclusion);
+    return {
+      response: { type: 'mesh', jobId: request.jobId, mesh },
+      transfer: [...meshBuffers(mesh.opaque), ...meshBuffers(mesh.translucent)]
+    };
+  }
+}
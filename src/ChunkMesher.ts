@@ -0,0 +1,256 @@
+import { CHUNK_SIZE } from './WorldConstants';
+import { BLOCK, getBlockDef, getFaceTile, isTransparent } from './Blocks';
+
+// Section data padded by one block on every side, so faces on the section
+// border can be culled against the neighbors without any world lookups.
+export const PADDED_SIZE = CHUNK_SIZE + 2;
+
+export function getPaddedIndex(x: number, y: number, z: number): number {
+  // x, y, z are section-local and may be -1 or CHUNK_SIZE
+  return (x + 1) + (y + 1) * PADDED_SIZE + (z + 1) * PADDED_SIZE * PADDED_SIZE;
+}
+
+export type MeshData = {
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs: Float32Array; // In block units, the atlas layers repeat
+  tiles: Float32Array; // Atlas tile (texture array layer) per vertex
+  colors: Float32Array; // Ambient occlusion shade, the color comes from the texture
+  light: Float32Array; // Sky and block light level (0-15) of the block each face looks into
+  indices: Uint16Array | Uint32Array;
+};
+
+type Side = {
+  name: string;
+  normal: [number, number, number];
+  // Axis of the normal and the two in-plane axes the quad is swept along
+  axis: number;
+  sAxis: number;
+  tAxis: number;
+  // Direction each in-plane axis runs in, matching the original per-face vertex order
+  sDir: number;
+  tDir: number;
+};
+
+const SIDES: Side[] = [
+  { name: 'top',    normal: [0, 1, 0],  axis: 1, sAxis: 0, tAxis: 2, sDir: 1,  tDir: -1 },
+  { name: 'bottom', normal: [0, -1, 0], axis: 1, sAxis: 0, tAxis: 2, sDir: 1,  tDir: 1 },
+  { name: 'front',  normal: [0, 0, 1],  axis: 2, sAxis: 0, tAxis: 1, sDir: 1,  tDir: 1 },
+  { name: 'back',   normal: [0, 0, -1], axis: 2, sAxis: 0, tAxis: 1, sDir: -1, tDir: 1 },
+  { name: 'right',  normal: [1, 0, 0],  axis: 0, sAxis: 2, tAxis: 1, sDir: -1, tDir: 1 },
+  { name: 'left',   normal: [-1, 0, 0], axis: 0, sAxis: 2, tAxis: 1, sDir: 1,  tDir: 1 },
+];
+
+// Vertex color factor per ambient occlusion level (0 = corner fully enclosed, 3 = open)
+const AO_CURVE = [0.5, 0.7, 0.85, 1.0];
+const AO_NONE = 0xFF; // All four corners open
+
+// All four 2-bit corner values equal: the face shades evenly and can merge with its neighbors
+const isUniformAo = (ao: number) => ao === 0x00 || ao === 0x55 || ao === 0xAA || ao === 0xFF;
+
+// Geometry of one section: cutout blocks in one mesh, fluids in a translucent one drawn after it
+export type SectionMesh = {
+  opaque: MeshData;
+  translucent: MeshData;
+};
+
+type MeshBuilder = {
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  tiles: number[];
+  colors: number[];
+  light: number[];
+  flipped: boolean[]; // Per quad: split along the 0-3 diagonal instead of 1-2
+};
+
+const createBuilder = (): MeshBuilder => ({ positions: [], normals: [], uvs: [], tiles: [], colors: [], light: [], flipped: [] });
+
+// Face key bit of fluid blocks with open space above: the top edge is lowered to the fluid level
+const FLUID_SURFACE = 1 << 24;
+
+// Greedy mesher: for every face direction, sweeps the section slice by slice,
+// builds a mask of visible faces and merges equal neighbors into larger quads.
+// Faces merge when they share block type (and therefore atlas tile), light
+// and an even ambient occlusion; unevenly occluded faces stay single quads.
+export function buildSectionMesh(padded: Uint8Array, paddedLight: Uint8Array, ambientOcclusion: boolean): SectionMesh {
+  const S = CHUNK_SIZE;
+  const opaque = createBuilder();
+  const translucent = createBuilder();
+
+  // Face key: block type (bits 0-7), packed light of the block in front of the face (8-15),
+  // ambient occlusion of the four corners in vertex order, 2 bits each (16-23), FLUID_SURFACE (24)
+  const mask = new Int32Array(S * S);
+  const pos = [0, 0, 0];
+  const npos = [0, 0, 0];
+
+  for (const side of SIDES) {
+    const { axis, sAxis, tAxis, normal } = side;
+
+    for (let slice = 0; slice < S; slice++) {
+      // 1. Build the mask of visible faces in this slice
+      for (let t = 0; t < S; t++) {
+        for (let s = 0; s < S; s++) {
+          pos[axis] = slice; pos[sAxis] = s; pos[tAxis] = t;
+          const type = padded[getPaddedIndex(pos[0], pos[1], pos[2])];
+
+          let key = 0;
+          if (type !== BLOCK.AIR) {
+            npos[0] = pos[0] + normal[0];
+            npos[1] = pos[1] + normal[1];
+            npos[2] = pos[2] + normal[2];
+            const neighborIndex = getPaddedIndex(npos[0], npos[1], npos[2]);
+            const neighbor = padded[neighborIndex];
+            const fluid = getBlockDef(type).fluid;
+            // Fluids only show where they meet something else, not between two blocks of the same fluid
+            if (isTransparent(neighbor) && !(fluid && getBlockDef(neighbor).fluid === fluid)) {
+              if (fluid) {
+                // Fluids are not shaded by their surroundings
+                key = type | (paddedLight[neighborIndex] << 8) | (AO_NONE << 16);
+                if (getBlockDef(padded[getPaddedIndex(pos[0], pos[1] + 1, pos[2])]).fluid !== fluid) key |= FLUID_SURFACE;
+              } else {
+                const ao = ambientOcclusion ? getFaceAo(side, npos) : AO_NONE;
+                key = type | (paddedLight[neighborIndex] << 8) | (ao << 16);
+              }
+            }
+          }
+          mask[s + t * S] = key;
+        }
+      }
+
+      // 2. Merge the mask into rectangles
+      for (let t = 0; t < S; t++) {
+        for (let s = 0; s < S; ) {
+          const key = mask[s + t * S];
+          if (key === 0) {
+            s++;
+            continue;
+          }
+
+          const mergeable = isUniformAo((key >> 16) & 0xFF);
+
+          // Width along s
+          let w = 1;
+          while (mergeable && s + w < S && mask[s + w + t * S] === key) w++;
+
+          // Height along t
+          let h = 1;
+          grow: while (mergeable && t + h < S) {
+            for (let k = 0; k < w; k++) {
+              if (mask[s + k + (t + h) * S] !== key) break grow;
+            }
+            h++;
+          }
+
+          addQuad(side, slice, s, t, w, h, key);
+
+          // Clear the consumed faces
+          for (let dt = 0; dt < h; dt++) {
+            for (let ds = 0; ds < w; ds++) {
+              mask[s + ds + (t + dt) * S] = 0;
+            }
+          }
+          s += w;
+        }
+      }
+    }
+  }
+
+  // Occlusion of each face corner by the three blocks around it in the layer in front of the face
+  // (two sides and the diagonal). Corners come in the same order addQuad emits vertices in.
+  function getFaceAo(side: Side, front: number[]): number {
+    const { sAxis, tAxis, sDir, tDir } = side;
+    const p = [0, 0, 0];
+    const occludes = (ds: number, dt: number) => {
+      p[0] = front[0]; p[1] = front[1]; p[2] = front[2];
+      p[sAxis] += ds;
+      p[tAxis] += dt;
+      return isTransparent(padded[getPaddedIndex(p[0], p[1], p[2])]) ? 0 : 1;
+    };
+
+    let ao = 0;
+    for (let j = 0; j < 4; j++) {
+      // Direction of this corner from the face center
+      const ds = ((j & 1) === 1) === (sDir > 0) ? 1 : -1;
+      const dt = ((j >> 1) === 1) === (tDir > 0) ? 1 : -1;
+      const side1 = occludes(ds, 0);
+      const side2 = occludes(0, dt);
+      const level = side1 && side2 ? 0 : 3 - (side1 + side2 + occludes(ds, dt));
+      ao |= level << (j * 2);
+    }
+    return ao;
+  }
+
+  function addQuad(side: Side, slice: number, s: number, t: number, w: number, h: number, key: number) {
+    const type = key & 0xFF;
+    const packedLight = (key >> 8) & 0xFF;
+    const ao = (key >> 16) & 0xFF;
+    const { axis, sAxis, tAxis, sDir, tDir, normal } = side;
+    const def = getBlockDef(type);
+    const target = def.fluid ? translucent : opaque;
+    const { positions, normals, uvs, tiles, colors, light } = target;
+
+    // Fluid surfaces sit lower the weaker the flow: a source fills 8/9 of the block, level 7 only 1/9
+    const surfaceDrop = key & FLUID_SURFACE ? (def.fluidLevel + 1) / 9 : 0;
+    const topY = axis === 1 ? slice + 1 : t + h; // Side faces always run along y as t
+
+    // Plane sits on the far side of the block for positive normals
+    const plane = slice + (normal[axis] > 0 ? 1 : 0);
+    // Vertex order (0,0) (1,0) (0,1) (1,1) starts at the min or max edge per axis
+    const sStart = sDir > 0 ? s : s + w;
+    const tStart = tDir > 0 ? t : t + h;
+
+    const corner = [0, 0, 0];
+    for (let j = 0; j < 4; j++) {
+      const cs = j & 1;
+      const ct = j >> 1;
+      corner[axis] = plane;
+      corner[sAxis] = sStart + sDir * cs * w;
+      corner[tAxis] = tStart + tDir * ct * h;
+      if (corner[1] === topY) corner[1] -= surfaceDrop;
+      positions.push(corner[0], corner[1], corner[2]);
+      normals.push(normal[0], normal[1], normal[2]);
+      // Tiling UVs: one texture repeat per block
+      uvs.push(cs * w, ct * h);
+    }
+
+    const tile = getFaceTile(type, side.name);
+    const corners = [ao & 3, (ao >> 2) & 3, (ao >> 4) & 3, (ao >> 6) & 3];
+    for (let i = 0; i < 4; i++) {
+      const shade = AO_CURVE[corners[i]];
+      tiles.push(tile);
+      colors.push(shade, shade, shade);
+      light.push(packedLight >> 4, packedLight & 0xF);
+    }
+    // Split along the brighter diagonal, otherwise the shading shows a visible crease
+    target.flipped.push(corners[0] + corners[3] > corners[1] + corners[2]);
+  }
+
+  return { opaque: finishMesh(opaque), translucent: finishMesh(translucent) };
+}
+
+function finishMesh(builder: MeshBuilder): MeshData {
+  const { positions, flipped } = builder;
+  // Convert quads (4 verts) to triangles (6 indices)
+  const vertCount = positions.length / 3;
+  const indices = vertCount > 65535 ? new Uint32Array(vertCount * 1.5) : new Uint16Array(vertCount * 1.5);
+  for (let i = 0, j = 0; i < vertCount; i += 4, j += 6) {
+    if (flipped[i / 4]) {
+      indices[j] = i; indices[j + 1] = i + 1; indices[j + 2] = i + 3;
+      indices[j + 3] = i; indices[j + 4] = i + 3; indices[j + 5] = i + 2;
+    } else {
+      indices[j] = i; indices[j + 1] = i + 1; indices[j + 2] = i + 2;
+      indices[j + 3] = i + 2; indices[j + 4] = i + 1; indices[j + 5] = i + 3;
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(builder.normals),
+    uvs: new Float32Array(builder.uvs),
+    tiles: new Float32Array(builder.tiles),
+    colors: new Float32Array(builder.colors),
+    light: new Float32Array(builder.light),
+    indices
+  };
+}
@@ -0,0 +1,16 @@
+import { runChunkRequest } from './ChunkJobs';
+import type { WorkerRequest, WorkerResponse } from './WorkerPool';
+
+// Chunk worker: terrain generation and meshing off the main thread.
+// Results go back as transferable buffers, the main thread only wraps them in BufferGeometry.
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  try {
+    const { response, transfer } = runChunkRequest(e.data);
+    self.postMessage(response, { transfer });
+  } catch (error) {
+    // The pool has to hear back about every job, or the job and this worker stay busy forever
+    const response: WorkerResponse = { type: 'error', jobId: e.data.jobId, message: String(error) };
+    self.postMessage(response);
+  }
+};
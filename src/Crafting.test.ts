@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { findRecipe, type Recipe } from './Crafting';
+import { ITEM } from './Items';
+
+const { PLANKS: P, STICK: S, STONE: C, WOOD: W } = ITEM;
+
+// size × size grid with the rows of `cells` placed at (x, y), everything else empty
+function grid(size: number, cells: number[][], x = 0, y = 0): number[] {
+  const result = new Array(size * size).fill(0);
+  cells.forEach((row, dy) => row.forEach((id, dx) => {
+    result[(y + dy) * size + x + dx] = id;
+  }));
+  return result;
+}
+
+const resultOf = (cells: number[], size: number) => findRecipe(cells, size)?.result ?? null;
+
+describe('shaped recipes', () => {
+  it('match at every offset of the 2×2 grid', () => {
+    for (let x = 0; x <= 1; x++) {
+      expect(resultOf(grid(2, [[P], [P]], x, 0), 2), `sticks at ${x}`).toEqual({ id: S, count: 4 });
+    }
+    const single: Recipe[] = [{ type: 'shaped', pattern: ['S'], key: { S }, result: { id: P, count: 1 } }];
+    for (let y = 0; y <= 1; y++) {
+      for (let x = 0; x <= 1; x++) {
+        expect(findRecipe(grid(2, [[S]], x, y), 2, single)?.result, `stick at ${x},${y}`).toEqual({ id: P, count: 1 });
+      }
+    }
+    expect(resultOf(grid(2, [[P, P], [P, P]]), 2)).toEqual({ id: ITEM.CRAFTING_TABLE, count: 1 });
+  });
+
+  it('match at every offset of the 3×3 grid', () => {
+    for (let y = 0; y <= 1; y++) {
+      for (let x = 0; x <= 2; x++) {
+        expect(resultOf(grid(3, [[P], [P]], x, y), 3), `sticks at ${x},${y}`).toEqual({ id: S, count: 4 });
+      }
+    }
+    for (let y = 0; y <= 1; y++) {
+      for (let x = 0; x <= 1; x++) {
+        expect(resultOf(grid(3, [[C, C], [C, C]], x, y), 3), `bricks at ${x},${y}`).toEqual({ id: ITEM.STONE_BRICKS, count: 4 });
+      }
+    }
+    expect(resultOf(grid(3, [[C, C, C], [0, S, 0], [0, S, 0]]), 3)).toEqual({ id: ITEM.STONE_PICKAXE, count: 1 });
+  });
+
+  it('match mirrored left-right', () => {
+    const axe = [[P, P], [P, S], [0, S]];
+    const mirrored = [[P, P], [S, P], [S, 0]];
+    expect(resultOf(grid(3, axe), 3)).toEqual({ id: ITEM.WOODEN_AXE, count: 1 });
+    expect(resultOf(grid(3, mirrored), 3)).toEqual({ id: ITEM.WOODEN_AXE, count: 1 });
+    expect(resultOf(grid(3, mirrored, 1, 0), 3)).toEqual({ id: ITEM.WOODEN_AXE, count: 1 });
+  });
+
+  it('do not match upside down', () => {
+    expect(resultOf(grid(3, [[0, S], [P, S], [P, P]]), 3)).toBeNull();
+  });
+});
+
+describe('shapeless recipes', () => {
+  it('match the ingredient in any cell', () => {
+    for (let i = 0; i < 4; i++) {
+      const cells = new Array(4).fill(0);
+      cells[i] = W;
+      expect(resultOf(cells, 2)).toEqual({ id: P, count: 4 });
+    }
+    for (let i = 0; i < 9; i++) {
+      const cells = new Array(9).fill(0);
+      cells[i] = W;
+      expect(resultOf(cells, 3)).toEqual({ id: P, count: 4 });
+    }
+  });
+
+  it('match ingredients in any order', () => {
+    const recipes: Recipe[] = [{ type: 'shapeless', ingredients: [W, S, S], result: { id: C, count: 1 } }];
+    expect(findRecipe([S, 0, W, S], 2, recipes)?.result).toEqual({ id: C, count: 1 });
+    expect(findRecipe([0, S, 0, 0, W, 0, S, 0, 0], 3, recipes)?.result).toEqual({ id: C, count: 1 });
+    expect(findRecipe([S, 0, W, 0], 2, recipes)).toBeNull(); // One stick short
+    expect(findRecipe([S, S, W, S], 2, recipes)).toBeNull(); // One stick too many
+  });
+});
+
+describe('near misses', () => {
+  it('nothing for an empty grid', () => {
+    expect(findRecipe(grid(2, []), 2)).toBeNull();
+    expect(findRecipe(grid(3, []), 3)).toBeNull();
+  });
+
+  it('nothing with an extra item next to a pattern', () => {
+    expect(resultOf(grid(3, [[P, 0], [P, S]]), 3)).toBeNull();
+    expect(resultOf(grid(3, [[C, C, C], [0, S, 0], [0, S, S]]), 3)).toBeNull();
+    expect(resultOf(grid(2, [[W, W]]), 2)).toBeNull(); // Shapeless with a second log
+  });
+
+  it('nothing with a wrong or missing ingredient', () => {
+    expect(resultOf(grid(2, [[P], [C]]), 2)).toBeNull();
+    expect(resultOf(grid(2, [[P, P], [P, 0]]), 2)).toBeNull();
+    expect(resultOf(grid(3, [[C, C, C], [0, S, 0]]), 3)).toBeNull();
+  });
+
+  it('nothing when the pattern is split apart', () => {
+    expect(resultOf(grid(3, [[P], [0], [P]]), 3)).toBeNull();
+  });
+});
+
+describe('grid size', () => {
+  it('makes 2×2 recipes in both grids', () => {
+    expect(resultOf(grid(2, [[P, P], [P, P]]), 2)).toEqual({ id: ITEM.CRAFTING_TABLE, count: 1 });
+    expect(resultOf(grid(3, [[P, P], [P, P]], 1, 1), 3)).toEqual({ id: ITEM.CRAFTING_TABLE, count: 1 });
+  });
+
+  it('makes 3-wide or 3-tall recipes only on the crafting table', () => {
+    // The 2×2 grid can't hold the pattern; its top left corner alone is no recipe
+    expect(resultOf(grid(2, [[P, P], [0, S]]), 2)).toBeNull();
+    expect(resultOf(grid(3, [[P, P, P], [0, S, 0], [0, S, 0]]), 3)).toEqual({ id: ITEM.WOODEN_PICKAXE, count: 1 });
+    expect(resultOf(grid(3, [[C, C, C], [C, 0, C], [C, C, C]]), 3)).toEqual({ id: ITEM.FURNACE, count: 1 });
+  });
+});
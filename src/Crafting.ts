@@ -0,0 +1,84 @@
+// Crafting recipes and the matcher for the 2×2 inventory grid and the 3×3 crafting table.
+// Recipes are plain data; kept free of DOM/THREE like the block registry.
+
+import { ITEM, type ItemStack } from './Items';
+
+// Pattern rows have one character per cell, ' ' is an empty cell and other characters map to item ids
+// through `key`. Patterns are trimmed (no empty outer rows or columns): they match anywhere in the grid,
+// mirrored left-right too.
+export type ShapedRecipe = { type: 'shaped', pattern: string[], key: Record<string, number>, result: ItemStack };
+
+// Ingredients in any cells, an id is listed once per item needed
+export type ShapelessRecipe = { type: 'shapeless', ingredients: number[], result: ItemStack };
+
+export type Recipe = ShapedRecipe | ShapelessRecipe;
+
+export const RECIPES: Recipe[] = [
+  { type: 'shapeless', ingredients: [ITEM.WOOD], result: { id: ITEM.PLANKS, count: 4 } },
+  { type: 'shaped', pattern: ['PP', 'PP'], key: { P: ITEM.PLANKS }, result: { id: ITEM.CRAFTING_TABLE, count: 1 } },
+  { type: 'shaped', pattern: ['SS', 'SS'], key: { S: ITEM.STONE }, result: { id: ITEM.STONE_BRICKS, count: 4 } },
+  { type: 'shaped', pattern: ['SS', 'SS'], key: { S: ITEM.SAND }, result: { id: ITEM.SANDSTONE, count: 1 } },
+  { type: 'shaped', pattern: ['P', 'P'], key: { P: ITEM.PLANKS }, result: { id: ITEM.STICK, count: 4 } },
+  { type: 'shaped', pattern: ['SSS', 'S S', 'SSS'], key: { S: ITEM.STONE }, result: { id: ITEM.FURNACE, count: 1 } },
+  ...toolRecipes(ITEM.PLANKS, ITEM.WOODEN_PICKAXE, ITEM.WOODEN_AXE, ITEM.WOODEN_SHOVEL, ITEM.WOODEN_SWORD),
+  ...toolRecipes(ITEM.STONE, ITEM.STONE_PICKAXE, ITEM.STONE_AXE, ITEM.STONE_SHOVEL, ITEM.STONE_SWORD),
+  ...toolRecipes(ITEM.IRON_INGOT, ITEM.IRON_PICKAXE, ITEM.IRON_AXE, ITEM.IRON_SHOVEL, ITEM.IRON_SWORD)
+];
+
+// The four tools of a tier, heads made of `material` on stick handles
+function toolRecipes(material: number, pickaxe: number, axe: number, shovel: number, sword: number): Recipe[] {
+  const key = { M: material, S: ITEM.STICK };
+  return [
+    { type: 'shaped', pattern: ['MMM', ' S ', ' S '], key, result: { id: pickaxe, count: 1 } },
+    { type: 'shaped', pattern: ['MM', 'MS', ' S'], key, result: { id: axe, count: 1 } },
+    { type: 'shaped', pattern: ['M', 'S', 'S'], key, result: { id: shovel, count: 1 } },
+    { type: 'shaped', pattern: ['M', 'M', 'S'], key, result: { id: sword, count: 1 } }
+  ];
+}
+
+// `grid` holds size × size item ids row by row, 0 = empty. Returns the first matching recipe.
+export function findRecipe(grid: number[], size: number, recipes: Recipe[] = RECIPES): Recipe | null {
+  for (const recipe of recipes) {
+    const matches = recipe.type === 'shaped' ? matchesShaped(recipe, grid, size) : matchesShapeless(recipe, grid);
+    if (matches) return recipe;
+  }
+  return null;
+}
+
+function matchesShaped(recipe: ShapedRecipe, grid: number[], size: number): boolean {
+  // Bounding box of the filled cells
+  let minX = size, minY = size, maxX = -1, maxY = -1;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y * size + x] === 0) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return false;
+
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const patternWidth = Math.max(...recipe.pattern.map(row => row.length));
+  if (width !== patternWidth || height !== recipe.pattern.length) return false;
+
+  const matchesPattern = (mirrored: boolean) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const char = recipe.pattern[y][mirrored ? width - 1 - x : x] ?? ' ';
+        const expected = char === ' ' ? 0 : recipe.key[char];
+        if (grid[(minY + y) * size + minX + x] !== expected) return false;
+      }
+    }
+    return true;
+  };
+  return matchesPattern(false) || matchesPattern(true);
+}
+
+function matchesShapeless(recipe: ShapelessRecipe, grid: number[]): boolean {
+  const filled = grid.filter(id => id !== 0).sort((a, b) => a - b);
+  const needed = [...recipe.ingredients].sort((a, b) => a - b);
+  return filled.length === needed.length && filled.every((id, i) => id === needed[i]);
+}
@@ -1,4 +1,11 @@
-export class DB {
+import { encodeSection, isCurrentSection, readPlayerMeta, readSection } from './SaveFormat';
+import type { StorageWrite, WorldSave, WorldStorage } from './WorldStorage';
+
+// Database schema version. Version 3 stores sections in the versioned SaveFormat encoding,
+// version 4 adds the journal store.
+const DB_VERSION = 4;
+
+export class DB implements WorldSave {
   private dbName: string;
   private storeName: string;
   private db: IDBDatabase | null = null;
@@ -8,13 +15,19 @@ export class DB {
     this.storeName = storeName;
   }
 
+  public get name(): string {
+    return this.dbName;
+  }
+
   async init(): Promise<void> {
+    if (this.db) return;
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, 2);
+      const request = indexedDB.open(this.dbName, DB_VERSION);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         this.db = request.result;
+        this.db.onversionchange = () => this.close(); // Don't block deleting or upgrading from elsewhere
         resolve();
       };
 
@@ -26,10 +39,48 @@ export class DB {
         if (!db.objectStoreNames.contains('meta')) {
             db.createObjectStore('meta');
         }
+        if (!db.objectStoreNames.contains('journal')) {
+            db.createObjectStore('journal');
+        }
+        if (event.oldVersion > 0 && event.oldVersion < 3) {
+          this.upgradeSections(request.transaction!.objectStore(this.storeName));
+          this.upgradePlayerMeta(request.transaction!.objectStore('meta'));
+        }
       };
     });
   }
 
+  // Re-encodes every stored section in the current format, inside the upgrade transaction.
+  // Version 1 saves keyed one 16-high chunk per column "cx,cz", that is section "cx,0,cz" now.
+  private upgradeSections(store: IDBObjectStore) {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const key = cursor.key as string;
+      const value = cursor.value as Uint8Array;
+      try {
+        const parts = key.split(',');
+        if (parts.length === 2) {
+          store.delete(key);
+          store.put(encodeSection(readSection(value)), `${parts[0]},0,${parts[1]}`);
+        } else if (!isCurrentSection(value)) {
+          cursor.update(encodeSection(readSection(value)));
+        }
+      } catch (e) {
+        console.error(`Could not upgrade section ${key}:`, e); // Left as is, read-time migration tries again
+      }
+      cursor.continue();
+    };
+  }
+
+  private upgradePlayerMeta(store: IDBObjectStore) {
+    const request = store.get('player');
+    request.onsuccess = () => {
+      if (request.result) store.put(readPlayerMeta(request.result), 'player');
+    };
+  }
+
   async set(key: string, value: any, store: string = this.storeName): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.db) return reject('DB not initialized');
@@ -66,7 +117,7 @@ export class DB {
     });
   }
 
-  async keys(store: string = this.storeName): Promise<IDBValidKey[]> {
+  async keys(store: string = this.storeName): Promise<string[]> {
       return new Promise((resolve, reject) => {
           if (!this.db) return reject('DB not initialized');
           const transaction = this.db.transaction([store], 'readonly');
@@ -74,10 +125,82 @@ export class DB {
           const request = objectStore.getAllKeys();
 
           request.onerror = () => reject(request.error);
-          request.onsuccess = () => resolve(request.result);
+          request.onsuccess = () => resolve(request.result as string[]);
       });
   }
 
+  // Saves a snapshot in one transaction, so it is stored completely or not at all:
+  // the given writes plus every section staged in the journal, which is emptied.
+  async commit(writes: StorageWrite[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (!this.db) return reject('DB not initialized');
+        const transaction = this.db.transaction([this.storeName, 'meta', 'journal'], 'readwrite');
+
+        transaction.onabort = () => reject(transaction.error ?? 'Save aborted');
+        transaction.oncomplete = () => resolve();
+
+        // Staged sections first, so newer writes of the same key win
+        const chunks = transaction.objectStore(this.storeName);
+        const journal = transaction.objectStore('journal');
+        const request = journal.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                chunks.put(cursor.value, cursor.key);
+                cursor.continue();
+                return;
+            }
+            journal.clear();
+            for (const { store, key, value } of writes) transaction.objectStore(store).put(value, key);
+        };
+    });
+  }
+
+  // Drops everything staged in the journal since the last commit; returns how many records that was
+  async rollbackJournal(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        if (!this.db) return reject('DB not initialized');
+        const transaction = this.db.transaction(['journal'], 'readwrite');
+        const journal = transaction.objectStore('journal');
+        const count = journal.count();
+        journal.clear();
+
+        transaction.onabort = () => reject(transaction.error);
+        transaction.oncomplete = () => resolve(count.result);
+    });
+  }
+
+  // All records of a store as [key, value] pairs
+  async entries(store: string = this.storeName): Promise<[string, any][]> {
+    return new Promise((resolve, reject) => {
+        if (!this.db) return reject('DB not initialized');
+        const result: [string, any][] = [];
+        const request = this.db.transaction([store], 'readonly').objectStore(store).openCursor();
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve(result);
+            result.push([cursor.key as string, cursor.value]);
+            cursor.continue();
+        };
+    });
+  }
+
+  // Writes many records in one transaction
+  async setAll(records: [string, any][], store: string = this.storeName): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (!this.db) return reject('DB not initialized');
+        const transaction = this.db.transaction([store], 'readwrite');
+        const objectStore = transaction.objectStore(store);
+
+        transaction.onerror = () => reject(transaction.error);
+        transaction.oncomplete = () => resolve();
+
+        for (const [key, value] of records) objectStore.put(value, key);
+    });
+  }
+
   async clear(): Promise<void> {
     return new Promise((resolve, reject) => {
         if (!this.db) return reject('DB not initialized');
@@ -90,6 +213,32 @@ export class DB {
         transaction.objectStore('meta').clear();
     });
   }
+
+  close() {
+    this.db?.close();
+    this.db = null;
+  }
+
+  // Closes and removes the whole database
+  async destroy(): Promise<void> {
+    this.close();
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(this.dbName);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+    });
+  }
 }
 
-export const worldDB = new DB();
+// The game's backend: one IndexedDB database per world
+export class IndexedDBStorage implements WorldStorage {
+  async open(name: string): Promise<DB> {
+    const db = new DB(name);
+    await db.init();
+    return db;
+  }
+
+  async delete(name: string): Promise<void> {
+    await new DB(name).destroy();
+  }
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import type { Biome } from './Biomes';
 
 export class Environment {
   private scene: THREE.Scene;
@@ -25,12 +26,23 @@ export class Environment {
   private readonly lightColorSunset = new THREE.Color(0xffaa00);
   private readonly lightColorNight = new THREE.Color(0x1a1a3a); // Moon light (bluish)
 
+  // Daytime tint of the biome the player stands in
+  private readonly biomeSkyColor = new THREE.Color();
+  private readonly biomeFogColor = new THREE.Color();
+
   public get isDay(): boolean {
       const progress = this.time / this.totalCycleDuration;
       const angle = (progress * Math.PI * 2) - (Math.PI / 2);
       return Math.sin(angle) > 0;
   }
 
+  // 0.2 at night to 1 at noon, for the skylight baked into chunk meshes
+  public get daylight(): number {
+      const progress = this.time / this.totalCycleDuration;
+      const angle = (progress * Math.PI * 2) - (Math.PI / 2);
+      return THREE.MathUtils.clamp(0.5 + Math.sin(angle) * 2, 0.2, 1);
+  }
+
   constructor(scene: THREE.Scene) {
     this.scene = scene;
 
@@ -119,7 +131,7 @@ export class Environment {
     this.clouds.visible = enabled;
   }
 
-  public update(delta: number, playerPos: THREE.Vector3) {
+  public update(delta: number, playerPos: THREE.Vector3, biome?: Biome) {
     this.time += delta;
     if (this.time >= this.totalCycleDuration) {
         this.time %= this.totalCycleDuration;
@@ -158,22 +170,26 @@ export class Environment {
 
     // --- Color Transitions ---
     let targetSky: THREE.Color;
+    let targetFog: THREE.Color;
     let targetLight: THREE.Color;
     let ambientIntensity: number;
 
     if (sunY > 20) {
         // Day
-        targetSky = this.skyColorDay;
+        targetSky = biome ? this.biomeSkyColor.setHex(biome.skyColor) : this.skyColorDay;
+        targetFog = biome ? this.biomeFogColor.setHex(biome.fogColor) : this.skyColorDay;
         targetLight = this.lightColorDay;
         ambientIntensity = 0.6;
     } else if (sunY > -20) {
         // Sunset / Sunrise transition
         targetSky = this.skyColorSunset;
+        targetFog = targetSky;
         targetLight = this.lightColorSunset;
         ambientIntensity = 0.3;
     } else {
         // Night
         targetSky = this.skyColorNight;
+        targetFog = targetSky;
         targetLight = this.lightColorNight;
         ambientIntensity = 0.1;
     }
@@ -182,7 +198,7 @@ export class Environment {
     
     this.scene.background = (this.scene.background as THREE.Color).lerp(targetSky, lerpFactor);
     if (this.scene.fog) {
-        (this.scene.fog as THREE.Fog).color.lerp(targetSky, lerpFactor);
+        (this.scene.fog as THREE.Fog).color.lerp(targetFog, lerpFactor);
     }
     
     this.dirLight.color.lerp(targetLight, lerpFactor);
@@ -0,0 +1,172 @@
+import { BLOCK, MAX_FLUID_LEVEL, getBlockDef, getFluidBlock, isSolid, type FluidKind } from './Blocks';
+
+// Fluid flow. Levels live in the block id (source + 7 flowing variants per fluid, see Blocks.ts),
+// so flowing fluids are saved and meshed like any other block.
+// A block change schedules its fluid neighbors; when a scheduled fluid block is due it first
+// checks it is still fed (flowing blocks without a feeder dry up), then spreads:
+// straight down if it can, otherwise sideways, losing levels with every block.
+
+const TICK_MS = 50;
+// Ticks between two flow steps
+const FLOW_DELAY: Record<FluidKind, number> = { water: 5, lava: 30 };
+// Levels lost per block of sideways flow: water reaches 7 blocks, lava 3
+const LEVEL_DROP: Record<FluidKind, number> = { water: 1, lava: 2 };
+// Cap per tick so a flood can't stall a frame, the rest waits for the next tick
+const MAX_UPDATES_PER_TICK = 512;
+
+// Movement in fluids, shared by the player and mobs
+export const FLUID_GRAVITY_SCALE = 0.2;
+export const FLUID_SINK_SPEED = 2.0;
+export const SWIM_UP_SPEED = 3.0;
+
+const NEIGHBORS = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+const HORIZONTAL = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export interface FluidWorld {
+  getBlock(x: number, y: number, z: number): number;
+  isChunkLoaded(x: number, z: number): boolean;
+  setFluidBlock(x: number, y: number, z: number, type: number): void; // Block change made by the flow
+}
+
+export class FluidSimulator {
+  private world: FluidWorld;
+  private tick = 0;
+  private accumulator = 0;
+  // Due positions "x,y,z" bucketed by tick; `scheduled` keeps each position queued once
+  private buckets: Map<number, string[]> = new Map();
+  private scheduled: Set<string> = new Set();
+
+  constructor(world: FluidWorld) {
+    this.world = world;
+  }
+
+  public update(deltaMs: number) {
+    this.accumulator = Math.min(this.accumulator + deltaMs, TICK_MS * 4); // Don't catch up after a stall
+    while (this.accumulator >= TICK_MS) {
+      this.accumulator -= TICK_MS;
+      this.tick++;
+      this.runTick();
+    }
+  }
+
+  // Call after the block at x, y, z changed: the fluids around it (and in it) may flow now
+  public onBlockChanged(x: number, y: number, z: number) {
+    this.schedule(x, y, z);
+    for (const [dx, dy, dz] of NEIGHBORS) this.schedule(x + dx, y + dy, z + dz);
+  }
+
+  // Queues the block's next flow step if it is a fluid
+  public schedule(x: number, y: number, z: number) {
+    const fluid = getBlockDef(this.world.getBlock(x, y, z)).fluid;
+    if (!fluid) return;
+    const key = `${x},${y},${z}`;
+    if (this.scheduled.has(key)) return;
+    this.scheduled.add(key);
+    this.enqueue(this.tick + FLOW_DELAY[fluid], key);
+  }
+
+  public clear() {
+    this.buckets.clear();
+    this.scheduled.clear();
+  }
+
+  private enqueue(tick: number, key: string) {
+    let bucket = this.buckets.get(tick);
+    if (!bucket) {
+      bucket = [];
+      this.buckets.set(tick, bucket);
+    }
+    bucket.push(key);
+  }
+
+  private runTick() {
+    const due = this.buckets.get(this.tick);
+    if (!due) return;
+    this.buckets.delete(this.tick);
+
+    const count = Math.min(due.length, MAX_UPDATES_PER_TICK);
+    for (let i = 0; i < count; i++) {
+      this.scheduled.delete(due[i]);
+      const [x, y, z] = due[i].split(',').map(Number);
+      this.flow(x, y, z);
+    }
+    for (let i = count; i < due.length; i++) this.enqueue(this.tick + 1, due[i]);
+  }
+
+  private flow(x: number, y: number, z: number) {
+    // Neighbors in unloaded columns read as air and would drain the fluid into nowhere
+    for (const [dx, dz] of HORIZONTAL) {
+      if (!this.world.isChunkLoaded(x + dx, z + dz)) return;
+    }
+
+    const def = getBlockDef(this.world.getBlock(x, y, z));
+    const fluid = def.fluid;
+    if (!fluid) return;
+
+    // Lava touching water hardens
+    if (fluid === 'lava' && this.touches(x, y, z, 'water')) {
+      this.world.setFluidBlock(x, y, z, BLOCK.STONE);
+      return;
+    }
+
+    // Flowing blocks follow their feeders; the change reschedules this block to spread afterwards
+    if (def.fluidLevel > 0) {
+      const level = this.getFedLevel(x, y, z, fluid);
+      if (level !== def.fluidLevel) {
+        this.world.setFluidBlock(x, y, z, level > MAX_FLUID_LEVEL ? BLOCK.AIR : getFluidBlock(fluid, level));
+        return;
+      }
+    }
+
+    // Down first. Falling fluid restarts at level 1, so it spreads again where it lands.
+    const below = this.world.getBlock(x, y - 1, z);
+    if (y > 0 && this.canFlowInto(below, fluid, 1)) {
+      this.world.setFluidBlock(x, y - 1, z, getFluidBlock(fluid, 1));
+      return;
+    }
+    if (getBlockDef(below).fluid === fluid) return; // Falling into a pool, it spreads from there
+
+    const next = def.fluidLevel + LEVEL_DROP[fluid];
+    if (next > MAX_FLUID_LEVEL) return;
+    for (const [dx, dz] of HORIZONTAL) {
+      if (this.canFlowInto(this.world.getBlock(x + dx, y, z + dz), fluid, next)) {
+        this.world.setFluidBlock(x + dx, y, z + dz, getFluidBlock(fluid, next));
+      }
+    }
+  }
+
+  // Level a flowing block should have given its neighbors, above MAX_FLUID_LEVEL when nothing feeds it
+  private getFedLevel(x: number, y: number, z: number, fluid: FluidKind): number {
+    if (getBlockDef(this.world.getBlock(x, y + 1, z)).fluid === fluid) return 1; // Falling
+
+    let level = MAX_FLUID_LEVEL + 1;
+    let sources = 0;
+    for (const [dx, dz] of HORIZONTAL) {
+      const neighbor = getBlockDef(this.world.getBlock(x + dx, y, z + dz));
+      if (neighbor.fluid !== fluid) continue;
+      if (neighbor.fluidLevel === 0) sources++;
+      level = Math.min(level, neighbor.fluidLevel + LEVEL_DROP[fluid]);
+    }
+
+    // Water between two sources on solid ground (or over more water) becomes a source itself
+    if (fluid === 'water' && sources >= 2) {
+      const below = this.world.getBlock(x, y - 1, z);
+      if (isSolid(below) || below === BLOCK.WATER) return 0;
+    }
+    return level;
+  }
+
+  // Air, or the same fluid at a lower level than the flow would bring
+  private canFlowInto(type: number, fluid: FluidKind, level: number): boolean {
+    if (type === BLOCK.AIR) return true;
+    const def = getBlockDef(type);
+    return def.fluid === fluid && def.fluidLevel > level;
+  }
+
+  private touches(x: number, y: number, z: number, fluid: FluidKind): boolean {
+    for (const [dx, dy, dz] of NEIGHBORS) {
+      if (getBlockDef(this.world.getBlock(x + dx, y + dy, z + dz)).fluid === fluid) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,134 @@
+// Furnace: smelting recipes, fuels and the per-block state the World ticks while the furnace's
+// column is loaded (saved with the section, see BlockEntities.ts). Kept free of DOM/THREE like the item registry.
+
+import { ITEM, canStack, getMaxStackSize, readItemStack, type ItemStack } from './Items';
+
+export const SMELT_TIME = 10000; // ms per item
+
+export type SmeltingRecipe = { input: number, result: ItemStack };
+
+export const SMELTING_RECIPES: SmeltingRecipe[] = [
+  { input: ITEM.IRON_ORE, result: { id: ITEM.IRON_INGOT, count: 1 } },
+  { input: ITEM.GOLD_ORE, result: { id: ITEM.GOLD_INGOT, count: 1 } },
+  { input: ITEM.SAND, result: { id: ITEM.GLASS, count: 1 } },
+  { input: ITEM.WOOD, result: { id: ITEM.CHARCOAL, count: 1 } }
+];
+
+// Burn time in ms of one item, a wood-type fuel smelts 1.5 items.
+// There is no coal item, coal ore burns like charcoal.
+const FUEL_TIMES: Record<number, number> = {
+  [ITEM.CHARCOAL]: 80000,
+  [ITEM.COAL_ORE]: 80000,
+  [ITEM.WOOD]: 15000,
+  [ITEM.PLANKS]: 15000,
+  [ITEM.CRAFTING_TABLE]: 15000,
+  [ITEM.WOODEN_PICKAXE]: 10000,
+  [ITEM.WOODEN_AXE]: 10000,
+  [ITEM.WOODEN_SHOVEL]: 10000,
+  [ITEM.WOODEN_SWORD]: 10000,
+  [ITEM.STICK]: 5000
+};
+
+export type FurnaceState = {
+  type: 'furnace';
+  input: ItemStack;
+  fuel: ItemStack;
+  output: ItemStack;
+  burnTime: number; // ms left of the fuel item burning now
+  burnDuration: number; // ms that fuel item burns in total, for the fuel bar
+  progress: number; // ms smelted of the current input item
+};
+
+export function createFurnace(): FurnaceState {
+  return {
+    type: 'furnace',
+    input: { id: 0, count: 0 },
+    fuel: { id: 0, count: 0 },
+    output: { id: 0, count: 0 },
+    burnTime: 0,
+    burnDuration: 0,
+    progress: 0
+  };
+}
+
+export function findSmeltingRecipe(itemId: number): SmeltingRecipe | null {
+  return SMELTING_RECIPES.find(recipe => recipe.input === itemId) ?? null;
+}
+
+// 0 = not a fuel
+export function getFuelTime(itemId: number): number {
+  return FUEL_TIMES[itemId] ?? 0;
+}
+
+export function isBurning(furnace: FurnaceState): boolean {
+  return furnace.burnTime > 0;
+}
+
+// The recipe for the input, if its result still fits into the output slot
+function getActiveRecipe(furnace: FurnaceState): SmeltingRecipe | null {
+  if (furnace.input.id === 0) return null;
+  const recipe = findSmeltingRecipe(furnace.input.id);
+  if (!recipe) return null;
+  const { output } = furnace;
+  if (output.id === 0) return recipe;
+  const fits = canStack(output, recipe.result) && output.count + recipe.result.count <= getMaxStackSize(output.id);
+  return fits ? recipe : null;
+}
+
+// Advances the furnace by dt ms. A new fuel item is only lit while there is something to smelt;
+// smelting stops (and loses its progress) when the fuel runs out. Returns whether anything changed.
+export function tickFurnace(furnace: FurnaceState, dt: number): boolean {
+  let changed = false;
+
+  while (dt > 0) {
+    const recipe = getActiveRecipe(furnace);
+
+    if (furnace.burnTime <= 0) {
+      const fuelTime = recipe ? getFuelTime(furnace.fuel.id) : 0;
+      if (fuelTime === 0) {
+        if (furnace.progress > 0 || furnace.burnDuration > 0) changed = true;
+        furnace.progress = 0;
+        furnace.burnTime = 0;
+        furnace.burnDuration = 0;
+        break;
+      }
+      furnace.burnTime = fuelTime;
+      furnace.burnDuration = fuelTime;
+      furnace.fuel.count--;
+      if (furnace.fuel.count === 0) furnace.fuel = { id: 0, count: 0 };
+    }
+
+    const step = Math.min(dt, furnace.burnTime, recipe ? SMELT_TIME - furnace.progress : Infinity);
+    furnace.burnTime -= step;
+    dt -= step;
+    changed = true;
+
+    if (!recipe) {
+      furnace.progress = 0;
+      continue;
+    }
+    furnace.progress += step;
+    if (furnace.progress >= SMELT_TIME) {
+      furnace.progress = 0;
+      furnace.input.count--;
+      if (furnace.input.count === 0) furnace.input = { id: 0, count: 0 };
+      if (furnace.output.id === 0) furnace.output = { ...recipe.result };
+      else furnace.output.count += recipe.result.count;
+    }
+  }
+  return changed;
+}
+
+// A furnace from a save: stacks go through readItemStack, broken times are reset
+export function readFurnace(stored: any): FurnaceState {
+  const time = (value: any) => typeof value === 'number' && value > 0 && Number.isFinite(value) ? value : 0;
+  return {
+    type: 'furnace',
+    input: readItemStack(stored?.input),
+    fuel: readItemStack(stored?.fuel),
+    output: readItemStack(stored?.output),
+    burnTime: time(stored?.burnTime),
+    burnDuration: time(stored?.burnDuration),
+    progress: Math.min(time(stored?.progress), SMELT_TIME)
+  };
+}
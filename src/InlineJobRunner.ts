@@ -0,0 +1,83 @@
+import { runChunkRequest } from './ChunkJobs';
+import type { ChunkJob, ChunkJobRunner, WorkerResponse } from './WorkerPool';
+
+// Runs chunk jobs on the calling thread, for Node (tests, tools, a server) where there are no web workers.
+// Same ordering as the WorkerPool: the lowest priority value first, a newer job replaces a queued one with its key.
+// Queued jobs run from a timer, or right away with runAll().
+export class InlineJobRunner implements ChunkJobRunner {
+  private queue: Map<string, ChunkJob> = new Map();
+  private nextJobId = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private autoRun: boolean;
+
+  // autoRun false: jobs only run in runAll(), for deterministic tests
+  constructor(autoRun: boolean = true) {
+    this.autoRun = autoRun;
+  }
+
+  public get pendingCount(): number {
+    return this.queue.size;
+  }
+
+  public schedule(job: ChunkJob) {
+    this.queue.delete(job.key);
+    this.queue.set(job.key, job);
+    if (this.autoRun && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.runAll();
+      }, 0);
+    }
+  }
+
+  public cancel(predicate: (key: string) => boolean) {
+    for (const [key, job] of this.queue) {
+      if (predicate(key)) {
+        this.queue.delete(key);
+        job.onCancel?.();
+      }
+    }
+  }
+
+  public cancelAll() {
+    this.cancel(() => true);
+  }
+
+  // Runs queued jobs, including the ones they schedule, until the queue is empty. Returns how many ran.
+  public runAll(): number {
+    let count = 0;
+    while (this.queue.size > 0) {
+      let bestKey = this.queue.keys().next().value!;
+      let bestPriority = Infinity;
+      for (const [key, job] of this.queue) {
+        const priority = job.priority();
+        if (priority < bestPriority) {
+          bestPriority = priority;
+          bestKey = key;
+        }
+      }
+
+      const job = this.queue.get(bestKey)!;
+      this.queue.delete(bestKey);
+      const { request } = job.createRequest(this.nextJobId++);
+      let response: WorkerResponse;
+      try {
+        response = runChunkRequest(request).response;
+      } catch (e) {
+        response = { type: 'error', jobId: request.jobId, message: String(e) };
+      }
+      try {
+        if (response.type === 'error') {
+          console.error('Chunk job failed:', response.message);
+          job.onError?.(response.message);
+        } else {
+          job.onDone(response);
+        }
+      } catch (e) {
+        console.error('Chunk job failed:', e);
+      }
+      count++;
+    }
+    return count;
+  }
+}
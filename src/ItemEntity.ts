@@ -1,9 +1,15 @@
 import * as THREE from 'three';
 import { World } from './World';
+import { getFaceTile } from './Blocks';
+import { getItemDef, type ItemMeta } from './Items';
+import type { TextureAtlas } from './TextureAtlas';
 
 export class ItemEntity {
   public mesh: THREE.Mesh;
-  public type: number;
+  public type: number; // Item id
+  public meta: ItemMeta | undefined; // Kept for the stack it's picked up into (a worn tool stays worn)
+  public count: number; // A dropped stack is one entity; pickup takes what fits and leaves the rest
+  public pickupDelay = 0; // ms after spawning before the player can pick it up
   public isDead = false;
   
   private scene: THREE.Scene;
@@ -16,41 +22,44 @@ export class ItemEntity {
   private isOnGround: boolean = false;
   private groundY: number = 0; // To store the base Y for floating
 
-  constructor(world: World, scene: THREE.Scene, x: number, y: number, z: number, type: number, texture: THREE.DataTexture) {
+  constructor(world: World, scene: THREE.Scene, x: number, y: number, z: number, type: number, atlas: TextureAtlas, meta?: ItemMeta, count = 1) {
     this.type = type;
+    this.meta = meta;
+    this.count = count;
     this.scene = scene;
     this.world = world;
     this.timeOffset = Math.random() * 100;
     this.creationTime = performance.now();
 
-    const geometry = new THREE.BoxGeometry(0.3, 0.3, 0.3);
-    
-    // Generate colors
-    const colors: number[] = [];
-    const count = geometry.attributes.position.count;
-    
-    // Color Logic
-    let r = 1, g = 1, b = 1;
-    if (type === 1) { r=0.33; g=0.6; b=0.33; } // Grass (Green)
-    else if (type === 2) { r=0.54; g=0.27; b=0.07; } // Dirt
-    else if (type === 3) { r=0.5; g=0.5; b=0.5; } // Stone
-    else if (type === 4) { r=0.13; g=0.13; b=0.13; } // Bedrock
-    else if (type === 5) { r=0.4; g=0.2; b=0.0; } // Wood
-    else if (type === 6) { r=0.13; g=0.55; b=0.13; } // Leaves
+    const block = getItemDef(type)?.block ?? null;
+    if (block === null) {
+      // Items that don't place a block: a flat, double-sided sprite
+      const material = new THREE.MeshStandardMaterial({
+        map: atlas.getItemTexture(type),
+        roughness: 0.8,
+        alphaTest: 0.5,
+        side: THREE.DoubleSide
+      });
+      this.mesh = new THREE.Mesh(new THREE.PlaneGeometry(0.4, 0.4), material);
+    } else {
+      const geometry = new THREE.BoxGeometry(0.3, 0.3, 0.3);
+      
+      // Point each face's UVs at the block's atlas tile. BoxGeometry faces: +x, -x, +y, -y, +z, -z, 4 vertices each.
+      const sides = ['right', 'left', 'top', 'bottom', 'front', 'back'];
+      const uv = geometry.attributes.uv as THREE.BufferAttribute;
+      for (let i = 0; i < uv.count; i++) {
+        const { u0, v0, u1, v1 } = atlas.getTileUv(getFaceTile(block, sides[Math.floor(i / 4)]));
+        uv.setXY(i, u0 + uv.getX(i) * (u1 - u0), v0 + uv.getY(i) * (v1 - v0));
+      }
 
-    for (let i = 0; i < count; i++) {
-      colors.push(r, g, b);
+      const material = new THREE.MeshStandardMaterial({ 
+        map: atlas.texture,
+        roughness: 0.8,
+        alphaTest: 0.5
+      });
+      
+      this.mesh = new THREE.Mesh(geometry, material);
     }
-    
-    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-
-    const material = new THREE.MeshStandardMaterial({ 
-      map: texture,
-      vertexColors: true,
-      roughness: 0.8
-    });
-    
-    this.mesh = new THREE.Mesh(geometry, material);
     (this.mesh as any).isItem = true;
     this.mesh.position.set(x + 0.5, y + 0.5, z + 0.5);
     this.mesh.castShadow = true;
@@ -113,6 +122,10 @@ export class ItemEntity {
     }
   }
 
+  canBePickedUp(): boolean {
+    return performance.now() - this.creationTime >= this.pickupDelay;
+  }
+
   dispose() {
     this.scene.remove(this.mesh);
     this.mesh.geometry.dispose();
@@ -0,0 +1,210 @@
+// Item registry: everything that can be in an inventory slot. Items have their own id space;
+// block items name the block they place, everything else (materials, tools) exists only as an item.
+// Kept free of THREE/DOM like the block registry.
+
+import { BLOCK, getBlockDef, type RGB, type ToolKind } from './Blocks';
+
+export type ToolTier = 'wood' | 'stone' | 'iron';
+
+export type ToolStats = {
+  kind: ToolKind;
+  tier: ToolTier;
+  level: number; // Harvest level, compared with BlockDefinition.harvestLevel
+  speed: number; // Break time divisor on blocks of its kind
+  durability: number; // Uses until it breaks
+  damage: number; // Attack damage, a bare hand does 1
+};
+
+export type ItemDefinition = {
+  id: number;
+  name: string; // Shown in the hotbar label and inventory tooltip. Block items use the block's name.
+  block: number | null; // Block placed by the item
+  color: RGB; // Sprite color of items that aren't blocks (tools: the head)
+  sprite: ItemSprite; // Sprite shape of items that aren't blocks or tools
+  tool: ToolStats | null;
+  maxStackSize: number;
+};
+
+export type ItemSprite = 'stick' | 'ingot' | 'lump';
+
+export type Enchantment = { id: string, level: number };
+
+// Per-stack data, saved with the stack. Stacks only merge when their meta is equal.
+export type ItemMeta = {
+  durability?: number; // Uses left, missing = unused
+  customName?: string;
+  enchantments?: Enchantment[];
+};
+
+// id 0 (with count 0) is an empty slot
+export type ItemStack = { id: number, count: number, meta?: ItemMeta };
+
+export const HAND_DAMAGE = 1;
+export const MAX_STACK_SIZE = 64;
+
+const TIERS: Record<ToolTier, { level: number, speed: number, durability: number, damage: number, color: RGB }> = {
+  wood: { level: 1, speed: 2, durability: 60, damage: 0, color: [0.62, 0.45, 0.25] },
+  stone: { level: 2, speed: 4, durability: 132, damage: 1, color: [0.55, 0.55, 0.55] },
+  iron: { level: 3, speed: 6, durability: 251, damage: 2, color: [0.85, 0.85, 0.85] }
+};
+
+// Damage before the tier bonus
+const KIND_DAMAGE: Record<ToolKind, number> = { pickaxe: 2, axe: 3, shovel: 1.5, sword: 4 };
+
+// Ids are stored in saves, never renumber them
+type ItemDeclaration = { id: number, name?: string, block?: number, color?: RGB, sprite?: ItemSprite, tool?: [ToolKind, ToolTier] };
+
+const DECLARATIONS = {
+  GRASS: { id: 1, block: BLOCK.GRASS },
+  DIRT: { id: 2, block: BLOCK.DIRT },
+  STONE: { id: 3, block: BLOCK.STONE },
+  BEDROCK: { id: 4, block: BLOCK.BEDROCK },
+  WOOD: { id: 5, block: BLOCK.WOOD },
+  LEAVES: { id: 6, block: BLOCK.LEAVES },
+  SAND: { id: 7, block: BLOCK.SAND },
+  SNOW: { id: 8, block: BLOCK.SNOW },
+  COAL_ORE: { id: 9, block: BLOCK.COAL_ORE },
+  IRON_ORE: { id: 10, block: BLOCK.IRON_ORE },
+  GOLD_ORE: { id: 11, block: BLOCK.GOLD_ORE },
+  DIAMOND_ORE: { id: 12, block: BLOCK.DIAMOND_ORE },
+  PLANKS: { id: 13, block: BLOCK.PLANKS },
+  CRAFTING_TABLE: { id: 14, block: BLOCK.CRAFTING_TABLE },
+  STONE_BRICKS: { id: 15, block: BLOCK.STONE_BRICKS },
+  SANDSTONE: { id: 16, block: BLOCK.SANDSTONE },
+  STICK: { id: 17, name: 'Палка', color: [0.55, 0.4, 0.2] },
+  WOODEN_PICKAXE: { id: 18, name: 'Деревянная кирка', tool: ['pickaxe', 'wood'] },
+  WOODEN_AXE: { id: 19, name: 'Деревянный топор', tool: ['axe', 'wood'] },
+  WOODEN_SHOVEL: { id: 20, name: 'Деревянная лопата', tool: ['shovel', 'wood'] },
+  WOODEN_SWORD: { id: 21, name: 'Деревянный меч', tool: ['sword', 'wood'] },
+  STONE_PICKAXE: { id: 22, name: 'Каменная кирка', tool: ['pickaxe', 'stone'] },
+  STONE_AXE: { id: 23, name: 'Каменный топор', tool: ['axe', 'stone'] },
+  STONE_SHOVEL: { id: 24, name: 'Каменная лопата', tool: ['shovel', 'stone'] },
+  STONE_SWORD: { id: 25, name: 'Каменный меч', tool: ['sword', 'stone'] },
+  IRON_PICKAXE: { id: 26, name: 'Железная кирка', tool: ['pickaxe', 'iron'] },
+  IRON_AXE: { id: 27, name: 'Железный топор', tool: ['axe', 'iron'] },
+  IRON_SHOVEL: { id: 28, name: 'Железная лопата', tool: ['shovel', 'iron'] },
+  IRON_SWORD: { id: 29, name: 'Железный меч', tool: ['sword', 'iron'] },
+  FURNACE: { id: 30, block: BLOCK.FURNACE },
+  GLASS: { id: 31, block: BLOCK.GLASS },
+  IRON_INGOT: { id: 32, name: 'Железный слиток', color: [0.85, 0.85, 0.85], sprite: 'ingot' },
+  GOLD_INGOT: { id: 33, name: 'Золотой слиток', color: [0.95, 0.8, 0.25], sprite: 'ingot' },
+  CHARCOAL: { id: 34, name: 'Древесный уголь', color: [0.18, 0.16, 0.14], sprite: 'lump' }
+} satisfies Record<string, ItemDeclaration>;
+
+// Item IDs
+export const ITEM = Object.fromEntries(
+  Object.entries(DECLARATIONS).map(([key, decl]) => [key, decl.id])
+) as { readonly [K in keyof typeof DECLARATIONS]: number };
+
+const REGISTRY: Map<number, ItemDefinition> = new Map();
+const BLOCK_ITEMS: Map<number, number> = new Map(); // Block id -> item id
+for (const decl of Object.values(DECLARATIONS) as ItemDeclaration[]) {
+  if (decl.id <= 0 || REGISTRY.has(decl.id)) throw new Error(`Invalid item id ${decl.id}`);
+  let tool: ToolStats | null = null;
+  if (decl.tool) {
+    const [kind, tier] = decl.tool;
+    const { level, speed, durability, damage } = TIERS[tier];
+    tool = { kind, tier, level, speed, durability, damage: KIND_DAMAGE[kind] + damage };
+  }
+  const block = decl.block ?? null;
+  REGISTRY.set(decl.id, {
+    id: decl.id,
+    name: decl.name ?? getBlockDef(block!).name,
+    block,
+    color: decl.color ?? (tool ? TIERS[tool.tier].color : getBlockDef(block!).color),
+    sprite: decl.sprite ?? 'stick',
+    tool,
+    maxStackSize: tool ? 1 : MAX_STACK_SIZE
+  });
+  if (block !== null) BLOCK_ITEMS.set(block, decl.id);
+}
+
+export function getItemDef(id: number): ItemDefinition | undefined {
+  return REGISTRY.get(id);
+}
+
+// The item that places the block, null for blocks without one (air, fluids)
+export function getItemForBlock(blockId: number): number | null {
+  return BLOCK_ITEMS.get(blockId) ?? null;
+}
+
+// Item dropped when the block is broken (see BlockDefinition.drops), null = nothing
+export function getBlockDrop(blockId: number): number | null {
+  const drop = getBlockDef(blockId).drops;
+  return drop === null ? null : getItemForBlock(drop);
+}
+
+export function getToolStats(id: number): ToolStats | null {
+  return REGISTRY.get(id)?.tool ?? null;
+}
+
+export function getMaxStackSize(id: number): number {
+  return REGISTRY.get(id)?.maxStackSize ?? MAX_STACK_SIZE;
+}
+
+// The custom name if the stack has one
+export function getDisplayName(stack: ItemStack): string {
+  return stack.meta?.customName ?? REGISTRY.get(stack.id)?.name ?? 'Предмет';
+}
+
+// A separate stack of the same item and meta
+export function copyStack(stack: ItemStack, count: number = stack.count): ItemStack {
+  return stack.meta ? { id: stack.id, count, meta: structuredClone(stack.meta) } : { id: stack.id, count };
+}
+
+// Whether `b` can be added onto `a`, ignoring the stack size limit
+export function canStack(a: ItemStack, b: ItemStack): boolean {
+  return a.id === b.id && getMaxStackSize(a.id) > 1 && JSON.stringify(a.meta ?? {}) === JSON.stringify(b.meta ?? {});
+}
+
+// Breaking time in ms of a block with the held item (0 = empty hand)
+export function getBreakTime(blockId: number, heldId: number): number {
+  const block = getBlockDef(blockId);
+  const tool = getToolStats(heldId);
+  if (tool && block.tool === tool.kind) return block.hardness / tool.speed;
+  return block.hardness;
+}
+
+// Whether breaking the block with the held item drops anything
+export function canHarvest(blockId: number, heldId: number): boolean {
+  const block = getBlockDef(blockId);
+  if (block.harvestLevel === 0) return true;
+  const tool = getToolStats(heldId);
+  return tool !== null && tool.kind === block.tool && tool.level >= block.harvestLevel;
+}
+
+export function getAttackDamage(heldId: number): number {
+  return getToolStats(heldId)?.damage ?? HAND_DAMAGE;
+}
+
+// Uses left, 1 for anything that isn't a tool
+export function getDurability(stack: ItemStack): number {
+  const tool = getToolStats(stack.id);
+  if (!tool) return 1;
+  return stack.meta?.durability ?? tool.durability;
+}
+
+// Wears a tool down; returns false once it broke (the caller empties the slot)
+export function damageItem(stack: ItemStack, amount: number): boolean {
+  if (!getToolStats(stack.id)) return true;
+  stack.meta = { ...stack.meta, durability: getDurability(stack) - amount };
+  return stack.meta.durability! > 0;
+}
+
+// A stack from a save (or anywhere untrusted): unknown items become empty slots,
+// counts are clamped to the stack size and invalid meta fields are dropped
+export function readItemStack(stored: any): ItemStack {
+  if (!stored || !REGISTRY.has(stored.id) || !(stored.count > 0)) return { id: 0, count: 0 };
+  const stack: ItemStack = { id: stored.id, count: Math.min(Math.floor(stored.count), getMaxStackSize(stored.id)) };
+
+  const meta: ItemMeta = {};
+  const raw = stored.meta ?? {};
+  if (typeof raw.durability === 'number' && getToolStats(stack.id)) meta.durability = raw.durability;
+  if (typeof raw.customName === 'string' && raw.customName !== '') meta.customName = raw.customName;
+  if (Array.isArray(raw.enchantments)) {
+    const enchantments = raw.enchantments.filter((e: any) => typeof e?.id === 'string' && Number.isInteger(e.level) && e.level > 0);
+    if (enchantments.length > 0) meta.enchantments = enchantments.map((e: any) => ({ id: e.id, level: e.level }));
+  }
+  if (Object.keys(meta).length > 0) stack.meta = meta;
+  return stack;
+}
@@ -0,0 +1,275 @@
+import { CHUNK_SIZE, WORLD_HEIGHT } from './WorldConstants';
+import { getAllBlocks } from './Blocks';
+
+// Voxel light: every block stores a skylight and a block-light level (0-15),
+// packed into one byte per block (sky in the high nibble, block light in the low one).
+// Skylight falls straight down from the sky without losing strength and spreads
+// sideways losing one level per block; block light spreads from emitting blocks.
+
+export const MAX_LIGHT = 15;
+export const FULL_SKYLIGHT = MAX_LIGHT << 4; // Packed value of an open-sky block with no block light
+
+const SKY = 4; // Nibble shifts
+const BLOCKLIGHT = 0;
+const CHANNELS = [SKY, BLOCKLIGHT];
+
+// Lookup tables by block id, the flood fills read them for every visited block
+const OPACITY = new Uint8Array(256).fill(MAX_LIGHT);
+const EMISSION = new Uint8Array(256);
+for (const def of getAllBlocks()) {
+  OPACITY[def.id] = def.lightOpacity;
+  EMISSION[def.id] = def.lightEmission;
+}
+
+// [dx, dy, dz] of the six neighbors; index 3 is straight down
+const DIRECTIONS = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+const DOWN = 3;
+
+function getChannel(packed: number, shift: number): number {
+  return (packed >> shift) & 0xF;
+}
+
+function setChannel(packed: number, shift: number, level: number): number {
+  return (packed & ~(0xF << shift)) | (level << shift);
+}
+
+// Level a neighbor receives from a source at `level`.
+// Full skylight keeps going straight down through clear blocks.
+function spreadLevel(level: number, opacity: number, shift: number, dir: number): number {
+  if (shift === SKY && dir === DOWN && level === MAX_LIGHT && opacity === 0) return MAX_LIGHT;
+  return level - 1 - opacity;
+}
+
+// --- Column pass (chunk workers) ---
+
+// Light of one column on its own, neighbors treated as dark.
+// The World connects it to the loaded neighbors afterwards (LightEngine.seedColumnBorders).
+export function computeColumnLight(sections: Uint8Array[]): Uint8Array[] {
+  const S = CHUNK_SIZE;
+  const light = sections.map(() => new Uint8Array(S * S * S));
+  // Column index x + z * S + y * S * S, so a queue entry is a single number
+  const blockAt = (i: number) => {
+    const y = i >> 8;
+    return sections[y >> 4][(i & 0xF) + (y & 0xF) * S + ((i >> 4) & 0xF) * S * S];
+  };
+  const lightIndex = (i: number) => {
+    const y = i >> 8;
+    return (i & 0xF) + (y & 0xF) * S + ((i >> 4) & 0xF) * S * S;
+  };
+  const getLight = (i: number, shift: number) => getChannel(light[i >> 12][lightIndex(i)], shift);
+  const setLight = (i: number, shift: number, level: number) => {
+    const section = light[i >> 12];
+    const index = lightIndex(i);
+    section[index] = setChannel(section[index], shift, level);
+  };
+
+  // 1. Sunlight straight down; skyTop = lowest y still in full sunlight
+  const skyTop = new Int16Array(S * S).fill(WORLD_HEIGHT);
+  const skyQueue: number[] = [];
+  for (let z = 0; z < S; z++) {
+    for (let x = 0; x < S; x++) {
+      let level = MAX_LIGHT;
+      for (let y = WORLD_HEIGHT - 1; y >= 0 && level > 0; y--) {
+        const i = x + z * S + y * S * S;
+        level = Math.max(0, level - OPACITY[blockAt(i)]);
+        if (level === 0) break;
+        setLight(i, SKY, level);
+        if (level === MAX_LIGHT) skyTop[x + z * S] = y;
+        else skyQueue.push(i); // Dimmed under leaves or water, spreads sideways too
+      }
+    }
+  }
+
+  // Full sunlight only needs to spread where a neighboring column is darker (under its overhang)
+  for (let z = 0; z < S; z++) {
+    for (let x = 0; x < S; x++) {
+      let highest = 0;
+      if (x > 0) highest = Math.max(highest, skyTop[x - 1 + z * S]);
+      if (x < S - 1) highest = Math.max(highest, skyTop[x + 1 + z * S]);
+      if (z > 0) highest = Math.max(highest, skyTop[x + (z - 1) * S]);
+      if (z < S - 1) highest = Math.max(highest, skyTop[x + (z + 1) * S]);
+      for (let y = skyTop[x + z * S]; y < highest; y++) {
+        skyQueue.push(x + z * S + y * S * S);
+      }
+    }
+  }
+
+  // 2. Emitting blocks
+  const blockQueue: number[] = [];
+  for (let i = 0; i < S * S * WORLD_HEIGHT; i++) {
+    const emission = EMISSION[blockAt(i)];
+    if (emission > 0) {
+      setLight(i, BLOCKLIGHT, emission);
+      blockQueue.push(i);
+    }
+  }
+
+  // 3. Flood fill inside the column
+  const fill = (queue: number[], shift: number) => {
+    for (let head = 0; head < queue.length; head++) {
+      const i = queue[head];
+      const level = getLight(i, shift);
+      const x = i & 0xF, z = (i >> 4) & 0xF, y = i >> 8;
+      for (let d = 0; d < 6; d++) {
+        const [dx, dy, dz] = DIRECTIONS[d];
+        const nx = x + dx, ny = y + dy, nz = z + dz;
+        if (nx < 0 || nx >= S || nz < 0 || nz >= S || ny < 0 || ny >= WORLD_HEIGHT) continue;
+        const n = nx + nz * S + ny * S * S;
+        const opacity = OPACITY[blockAt(n)];
+        if (opacity >= MAX_LIGHT) continue;
+        const next = spreadLevel(level, opacity, shift, d);
+        if (next > getLight(n, shift)) {
+          setLight(n, shift, next);
+          queue.push(n);
+        }
+      }
+    }
+  };
+  fill(skyQueue, SKY);
+  fill(blockQueue, BLOCKLIGHT);
+
+  return light;
+}
+
+// --- Incremental updates (main thread) ---
+
+export interface LightWorld {
+  getBlock(x: number, y: number, z: number): number;
+  getLight(x: number, y: number, z: number): number; // Packed, -1 if the column is not loaded
+  setLight(x: number, y: number, z: number, packed: number): void;
+}
+
+// Flood fills across loaded columns, in world coordinates.
+// Queues hold flat x, y, z (and level) runs to avoid allocating per block.
+export class LightEngine {
+  private world: LightWorld;
+
+  constructor(world: LightWorld) {
+    this.world = world;
+  }
+
+  // Call after the block at x, y, z changed: removes the light it used to carry or let through,
+  // then refills from the surroundings (and from the block itself if it emits light).
+  public updateBlock(x: number, y: number, z: number) {
+    for (const shift of CHANNELS) {
+      const addQueue: number[] = [];
+      const packed = this.world.getLight(x, y, z);
+      if (packed < 0) continue;
+
+      const old = getChannel(packed, shift);
+      if (old > 0) {
+        this.world.setLight(x, y, z, setChannel(packed, shift, 0));
+        this.unlight([x, y, z, old], shift, addQueue);
+      }
+
+      if (shift === BLOCKLIGHT) {
+        const emission = EMISSION[this.world.getBlock(x, y, z)];
+        if (emission > 0) {
+          this.world.setLight(x, y, z, setChannel(this.world.getLight(x, y, z), shift, emission));
+          addQueue.push(x, y, z);
+        }
+      }
+
+      // Neighbors relight this block if it became clear
+      for (const [dx, dy, dz] of DIRECTIONS) {
+        const neighbor = this.world.getLight(x + dx, y + dy, z + dz);
+        if (neighbor > 0 && getChannel(neighbor, shift) > 0) addQueue.push(x + dx, y + dy, z + dz);
+      }
+      this.fill(addQueue, shift);
+    }
+  }
+
+  // A column just arrived: let light flow both ways across its borders with loaded neighbors
+  public seedColumnBorders(cx: number, cz: number) {
+    const S = CHUNK_SIZE;
+    const x0 = cx * S;
+    const z0 = cz * S;
+    // [own border block offset, neighbor block offset] along x or z
+    const borders: { along: 'x' | 'z', own: number, other: number }[] = [
+      { along: 'z', own: x0, other: x0 - 1 },
+      { along: 'z', own: x0 + S - 1, other: x0 + S },
+      { along: 'x', own: z0, other: z0 - 1 },
+      { along: 'x', own: z0 + S - 1, other: z0 + S }
+    ];
+
+    for (const shift of CHANNELS) {
+      const queue: number[] = [];
+      for (const border of borders) {
+        for (let i = 0; i < S; i++) {
+          for (let y = 0; y < WORLD_HEIGHT; y++) {
+            const ax = border.along === 'z' ? border.own : x0 + i;
+            const az = border.along === 'z' ? z0 + i : border.own;
+            const bx = border.along === 'z' ? border.other : x0 + i;
+            const bz = border.along === 'z' ? z0 + i : border.other;
+
+            const b = this.world.getLight(bx, y, bz);
+            if (b < 0) break; // Neighbor not loaded
+            const a = this.world.getLight(ax, y, az);
+            const la = getChannel(a, shift);
+            const lb = getChannel(b, shift);
+            // Only queue the side that would brighten the other
+            if (la - 1 - OPACITY[this.world.getBlock(bx, y, bz)] > lb) queue.push(ax, y, az);
+            else if (lb - 1 - OPACITY[this.world.getBlock(ax, y, az)] > la) queue.push(bx, y, bz);
+          }
+        }
+      }
+      this.fill(queue, shift);
+    }
+  }
+
+  private fill(queue: number[], shift: number) {
+    for (let head = 0; head < queue.length; head += 3) {
+      const x = queue[head], y = queue[head + 1], z = queue[head + 2];
+      const level = getChannel(this.world.getLight(x, y, z), shift);
+      if (level <= 1) continue;
+
+      for (let d = 0; d < 6; d++) {
+        const [dx, dy, dz] = DIRECTIONS[d];
+        const nx = x + dx, ny = y + dy, nz = z + dz;
+        if (ny < 0 || ny >= WORLD_HEIGHT) continue;
+        const packed = this.world.getLight(nx, ny, nz);
+        if (packed < 0) continue;
+        const opacity = OPACITY[this.world.getBlock(nx, ny, nz)];
+        if (opacity >= MAX_LIGHT) continue;
+        const next = spreadLevel(level, opacity, shift, d);
+        if (next > getChannel(packed, shift)) {
+          this.world.setLight(nx, ny, nz, setChannel(packed, shift, next));
+          queue.push(nx, ny, nz);
+        }
+      }
+    }
+  }
+
+  // Clears everything lit by the removed source; brighter blocks met on the way
+  // belong to other sources and are queued to refill the gap.
+  private unlight(seed: number[], shift: number, addQueue: number[]) {
+    const queue = seed;
+    for (let head = 0; head < queue.length; head += 4) {
+      const x = queue[head], y = queue[head + 1], z = queue[head + 2], level = queue[head + 3];
+
+      for (let d = 0; d < 6; d++) {
+        const [dx, dy, dz] = DIRECTIONS[d];
+        const nx = x + dx, ny = y + dy, nz = z + dz;
+        if (ny < 0 || ny >= WORLD_HEIGHT) continue;
+        const packed = this.world.getLight(nx, ny, nz);
+        if (packed < 0) continue;
+        const current = getChannel(packed, shift);
+        if (current === 0) continue;
+
+        const fedByThis = current < level || (shift === SKY && d === DOWN && level === MAX_LIGHT && current === MAX_LIGHT);
+        if (fedByThis) {
+          this.world.setLight(nx, ny, nz, setChannel(packed, shift, 0));
+          queue.push(nx, ny, nz, current);
+          // A cleared emitter still lights itself
+          const emission = shift === BLOCKLIGHT ? EMISSION[this.world.getBlock(nx, ny, nz)] : 0;
+          if (emission > 0) {
+            this.world.setLight(nx, ny, nz, setChannel(packed, shift, emission));
+            addQueue.push(nx, ny, nz);
+          }
+        } else {
+          addQueue.push(nx, ny, nz);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  STORE_NAMES, type SlotRegistry, type SlotStoreName, type StorageWrite, type StoreName, type WorldSave, type WorldStorage
+} from './WorldStorage';
+
+// Worlds kept in RAM, for tests and tools. Values are cloned on the way in and out
+// like IndexedDB does, so callers can't change stored data by mutating what they passed or got.
+export class MemoryStorage implements WorldStorage {
+  private worlds: Map<string, Map<StoreName, Map<string, any>>> = new Map();
+
+  async open(name: string): Promise<WorldSave> {
+    let stores = this.worlds.get(name);
+    if (!stores) {
+      stores = new Map(STORE_NAMES.map(store => [store, new Map()]));
+      this.worlds.set(name, stores);
+    }
+    return new MemorySave(stores);
+  }
+
+  async delete(name: string): Promise<void> {
+    this.worlds.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.worlds.has(name);
+  }
+}
+
+class MemorySave implements WorldSave {
+  private stores: Map<StoreName, Map<string, any>>;
+
+  constructor(stores: Map<StoreName, Map<string, any>>) {
+    this.stores = stores;
+  }
+
+  async get(key: string, store: StoreName): Promise<any> {
+    const value = this.stores.get(store)!.get(key);
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  async set(key: string, value: any, store: StoreName): Promise<void> {
+    this.stores.get(store)!.set(key, structuredClone(value));
+  }
+
+  async keys(store: StoreName): Promise<string[]> {
+    return Array.from(this.stores.get(store)!.keys());
+  }
+
+  async entries(store: StoreName): Promise<[string, any][]> {
+    return Array.from(this.stores.get(store)!, ([key, value]) => [key, structuredClone(value)]);
+  }
+
+  async setAll(records: [string, any][], store: StoreName): Promise<void> {
+    for (const [key, value] of records) await this.set(key, value, store);
+  }
+
+  // Synchronous, so it's atomic by construction
+  async commit(writes: StorageWrite[]): Promise<void> {
+    const chunks = this.stores.get('chunks')!;
+    const journal = this.stores.get('journal')!;
+    const cloned = writes.map(write => ({ ...write, value: structuredClone(write.value) }));
+    for (const [key, value] of journal) chunks.set(key, value);
+    journal.clear();
+    for (const { store, key, value } of cloned) this.stores.get(store)!.set(key, value);
+  }
+
+  async rollbackJournal(): Promise<number> {
+    const journal = this.stores.get('journal')!;
+    const count = journal.size;
+    journal.clear();
+    return count;
+  }
+
+  close() {}
+}
+
+// The save slot list in RAM, for tests of WorldSlots
+export class MemorySlotRegistry implements SlotRegistry {
+  private stores: Map<SlotStoreName, Map<string, any>> = new Map([['worlds', new Map()], ['meta', new Map()]]);
+
+  async init(): Promise<void> {}
+
+  async get(key: string, store: SlotStoreName = 'worlds'): Promise<any> {
+    const value = this.stores.get(store)!.get(key);
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  async set(key: string, value: any, store: SlotStoreName = 'worlds'): Promise<void> {
+    this.stores.get(store)!.set(key, structuredClone(value));
+  }
+
+  async delete(key: string, store: SlotStoreName = 'worlds'): Promise<void> {
+    this.stores.get(store)!.delete(key);
+  }
+
+  async entries(store: SlotStoreName = 'worlds'): Promise<[string, any][]> {
+    return Array.from(this.stores.get(store)!, ([key, value]) => [key, structuredClone(value)]);
+  }
+}
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { World } from './World';
+import { getBlockDef } from './Blocks';
+import { FLUID_GRAVITY_SCALE, FLUID_SINK_SPEED, SWIM_UP_SPEED } from './Fluids';
 
 export const MobState = {
   IDLE: 0,
@@ -145,6 +147,16 @@ export class Mob {
     }
   }
 
+  // Removes the mob from the scene and frees its per-part geometries and materials (the texture is shared)
+  public dispose() {
+    this.scene.remove(this.mesh);
+    this.mesh.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    });
+  }
+
   update(delta: number, playerPos?: THREE.Vector3, onAttack?: (damage: number) => void, isDay?: boolean) {
     if (!this.isStunned) {
         this.updateAI(delta, playerPos, onAttack, isDay);
@@ -191,8 +203,20 @@ export class Mob {
   }
 
   protected updatePhysics(delta: number) {
-    // Gravity
-    this.velocity.y -= this.gravity * delta;
+    const pos = this.mesh.position;
+    const bodyBlock = getBlockDef(this.world.getBlock(Math.floor(pos.x), Math.floor(pos.y + 0.4), Math.floor(pos.z)));
+    if (bodyBlock.contactDamage > 0) this.takeDamage(bodyBlock.contactDamage, null);
+
+    if (bodyBlock.fluid) {
+        // Fluids: slow sinking, and swim up while the head is under
+        this.velocity.y -= this.gravity * FLUID_GRAVITY_SCALE * delta;
+        const headBlock = getBlockDef(this.world.getBlock(Math.floor(pos.x), Math.floor(pos.y + this.height * 0.8), Math.floor(pos.z)));
+        if (headBlock.fluid) this.velocity.y = SWIM_UP_SPEED * 0.5;
+        this.velocity.y = Math.max(this.velocity.y, -FLUID_SINK_SPEED);
+    } else {
+        // Gravity
+        this.velocity.y -= this.gravity * delta;
+    }
     
     // Friction (Air resistance/Ground friction)
     // Apply when hurt (knockback) or generally to smooth movement
@@ -1,9 +1,11 @@
 import * as THREE from 'three';
-import { World } from './World';
+import { World, BLOCK } from './World';
 import { Zombie } from './Zombie';
 import { Mob } from './Mob';
 
 import { ItemEntity } from './ItemEntity';
+import { TextureAtlas } from './TextureAtlas';
+import { ITEM } from './Items';
 
 import { Environment } from './Environment';
 
@@ -12,15 +14,32 @@ export class MobManager {
   private world: World;
   private scene: THREE.Scene;
   private entities: ItemEntity[];
+  private atlas: TextureAtlas; // Loot items
+  private mobTexture: THREE.Texture;
   
   private lastSpawnTime = 0;
   private spawnInterval = 10000; // 10 seconds
   private readonly MAX_MOBS = 10;
+  private readonly DARK_SKYLIGHT = 7; // Skylight level at or below which caves count as dark
 
-  constructor(world: World, scene: THREE.Scene, entities: ItemEntity[]) {
+  constructor(world: World, scene: THREE.Scene, entities: ItemEntity[], atlas: TextureAtlas, mobTexture: THREE.Texture) {
     this.world = world;
     this.scene = scene;
     this.entities = entities;
+    this.atlas = atlas;
+    this.mobTexture = mobTexture;
+
+    // Mobs and dropped items belong to the world they were in
+    this.world.subscribe((event) => {
+      if (event.type === 'closed') this.clear();
+    });
+  }
+
+  public clear() {
+    for (let i = this.mobs.length - 1; i >= 0; i--) this.despawnMob(i);
+    for (const entity of this.entities) entity.dispose();
+    this.entities.length = 0;
+    this.lastSpawnTime = 0;
   }
 
   public update(delta: number, playerPos: THREE.Vector3, environment: Environment, onPlayerHit?: (damage: number) => void) {
@@ -39,8 +58,8 @@ export class MobManager {
              mob.mesh.position.x, 
              mob.mesh.position.y, 
              mob.mesh.position.z, 
-             6, // Loot ID
-             this.world.noiseTexture
+             ITEM.LEAVES, // Loot
+             this.atlas
          ));
          
          this.despawnMob(i);
@@ -56,13 +75,46 @@ export class MobManager {
       }
     }
 
-    // 2. Spawn logic (Only at Night)
-    if (!isDay && this.mobs.length < this.MAX_MOBS && now - this.lastSpawnTime > this.spawnInterval) {
-      this.attemptSpawn(playerPos);
+    // 2. Spawn logic (surface at night, dark caves any time)
+    if (this.mobs.length < this.MAX_MOBS && now - this.lastSpawnTime > this.spawnInterval) {
+      if (!isDay) this.attemptSpawn(playerPos);
+      else this.attemptCaveSpawn(playerPos);
       this.lastSpawnTime = now + Math.random() * 5000; 
     }
   }
 
+  private attemptCaveSpawn(playerPos: THREE.Vector3) {
+    for (let i = 0; i < 10; i++) {
+        const angle = Math.random() * Math.PI * 2;
+        const dist = 12 + Math.random() * 20;
+
+        const x = Math.floor(playerPos.x + Math.sin(angle) * dist);
+        const z = Math.floor(playerPos.z + Math.cos(angle) * dist);
+        const y = Math.floor(playerPos.y + (Math.random() - 0.5) * 32);
+
+        const floorY = this.findCaveFloorY(x, y, z);
+        if (floorY !== -1) {
+            this.mobs.push(new Zombie(this.world, this.scene, x, floorY + 1, z, this.mobTexture));
+            break;
+        }
+    }
+  }
+
+  // Scans down from y for a floor with 2 free blocks above it that daylight doesn't reach
+  private findCaveFloorY(x: number, y: number, z: number): number {
+      const surfaceY = this.world.getSurfaceHeight(x, z);
+      if (surfaceY === -1) return -1;
+
+      for (let floorY = Math.min(y, surfaceY - 1); floorY > 0; floorY--) {
+          if (!this.world.hasBlock(x, floorY, z)) continue;
+          if (this.world.getBlock(x, floorY + 1, z) !== BLOCK.AIR || this.world.getBlock(x, floorY + 2, z) !== BLOCK.AIR) {
+              return -1;
+          }
+          return this.world.getSkyLight(x, floorY + 1, z) <= this.DARK_SKYLIGHT ? floorY : -1;
+      }
+      return -1;
+  }
+
   private attemptSpawn(playerPos: THREE.Vector3) {
     // Try 10 times to find a valid spot
     for (let i = 0; i < 10; i++) {
@@ -80,11 +132,14 @@ export class MobManager {
         // Or if World has a direct helper, use that.
         // Assuming we need to implement a simple scanner here if world.getHeight doesn't exist yet.
         
+        // Some biomes (ocean) never spawn mobs
+        if (!this.world.getBiome(x, z).mobSpawns) continue;
+
         const y = this.findSurfaceY(x, z);
         
         if (y !== -1) {
             // Found valid ground
-            const zombie = new Zombie(this.world, this.scene, x, y + 1, z);
+            const zombie = new Zombie(this.world, this.scene, x, y + 1, z, this.mobTexture);
             this.mobs.push(zombie);
             // console.log(`Spawned Zombie at ${x}, ${y+1}, ${z}`);
             break; // Spawned one, stop trying
@@ -93,29 +148,21 @@ export class MobManager {
   }
 
   private findSurfaceY(x: number, z: number): number {
-      // Find highest block at x,z
-      // Start checking from somewhat high up. Max terrain height is usually ~30-40 based on generation settings
-      // TERRAIN_HEIGHT=8, OFFSET=4, plus some hills... let's check from 50 down.
-      for (let y = 50; y > 0; y--) {
-          if (this.world.hasBlock(x, y, z)) {
-              // Ensure space above is free (2 blocks)
-              if (!this.world.hasBlock(x, y + 1, z) && !this.world.hasBlock(x, y + 2, z)) {
-                  return y;
-              }
-              // If space above not free, this spot is invalid (e.g. under a tree or in a cave)
-              return -1;
-          }
+      // Find highest block at x,z (scans down from the world height limit)
+      const y = this.world.getSurfaceHeight(x, z);
+      if (y <= 0) return -1;
+      if (!this.world.hasBlock(x, y, z)) return -1; // Surface is water or lava
+
+      // Ensure space above is free (2 blocks)
+      if (!this.world.hasBlock(x, y + 1, z) && !this.world.hasBlock(x, y + 2, z)) {
+          return y;
       }
+      // If space above not free, this spot is invalid (e.g. under a tree or in a cave)
       return -1;
   }
 
   private despawnMob(index: number) {
-    const mob = this.mobs[index];
-    this.scene.remove(mob.mesh);
-    // Dispose geometry/materials if needed, but we reuse the global noiseTexture.
-    // However, Mob creates unique materials for parts.
-    // In a real engine we'd pool these, but for now just let GC handle it or manually traverse.
-    // mob.dispose(); // Ideally Mob class should have a dispose method
+    this.mobs[index].dispose();
     this.mobs.splice(index, 1);
   }
 }
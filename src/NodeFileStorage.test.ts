@@ -0,0 +1,78 @@
+/// <reference types="node" />
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NodeFileStorage } from './NodeFileStorage';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(join(tmpdir(), 'node-storage-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+// A commit cut off by a crash: the writes are staged in <world>/commit/, with or without the marker
+async function stageInterruptedCommit(marker: boolean) {
+  const commitDir = join(root, 'w', 'commit');
+  await fs.mkdir(join(commitDir, 'meta'), { recursive: true });
+  await fs.writeFile(join(commitDir, 'meta', 'player.json'), JSON.stringify({ version: 2, seed: 2 }));
+  if (marker) await fs.writeFile(join(commitDir, 'COMMITTED'), '');
+}
+
+describe('NodeFileStorage', () => {
+  it('round-trips sections and JSON', async () => {
+    const storage = new NodeFileStorage(fs, root);
+    const save = await storage.open('w');
+    await save.set('0,0,0', new Uint8Array([1, 2, 3]), 'chunks');
+    await save.set('player', { seed: 1 }, 'meta');
+
+    const reopened = await new NodeFileStorage(fs, root).open('w');
+    expect(await reopened.get('0,0,0', 'chunks')).toEqual(new Uint8Array([1, 2, 3]));
+    expect(await reopened.get('player', 'meta')).toEqual({ seed: 1 });
+    expect(await reopened.keys('chunks')).toEqual(['0,0,0']);
+  });
+
+  it('moves the journal into chunks on commit', async () => {
+    const save = await new NodeFileStorage(fs, root).open('w');
+    await save.set('0,0,0', new Uint8Array([1]), 'journal');
+    await save.commit([{ store: 'meta', key: 'player', value: { seed: 1 } }]);
+
+    expect(await save.keys('journal')).toEqual([]);
+    expect(await save.get('0,0,0', 'chunks')).toEqual(new Uint8Array([1]));
+    expect(await save.get('player', 'meta')).toEqual({ seed: 1 });
+  });
+
+  it('throws away a commit interrupted before its marker', async () => {
+    const save = await new NodeFileStorage(fs, root).open('w');
+    await save.commit([{ store: 'meta', key: 'player', value: { version: 2, seed: 1 } }]);
+    await stageInterruptedCommit(false);
+
+    const reopened = await new NodeFileStorage(fs, root).open('w');
+    expect(await reopened.get('player', 'meta')).toEqual({ version: 2, seed: 1 });
+    await expect(fs.access(join(root, 'w', 'commit'))).rejects.toThrow();
+  });
+
+  it('finishes a commit interrupted after its marker', async () => {
+    const save = await new NodeFileStorage(fs, root).open('w');
+    await save.commit([{ store: 'meta', key: 'player', value: { version: 2, seed: 1 } }]);
+    await save.set('0,0,0', new Uint8Array([7]), 'journal');
+    await stageInterruptedCommit(true);
+
+    const reopened = await new NodeFileStorage(fs, root).open('w');
+    expect(await reopened.get('player', 'meta')).toEqual({ version: 2, seed: 2 });
+    expect(await reopened.get('0,0,0', 'chunks')).toEqual(new Uint8Array([7]));
+    expect(await reopened.keys('journal')).toEqual([]);
+  });
+
+  it('deletes a world', async () => {
+    const storage = new NodeFileStorage(fs, root);
+    const save = await storage.open('w');
+    await save.set('player', { seed: 1 }, 'meta');
+    await storage.delete('w');
+    await expect(fs.access(join(root, 'w'))).rejects.toThrow();
+  });
+});
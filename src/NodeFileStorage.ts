@@ -0,0 +1,179 @@
+import { STORE_NAMES, type StorageWrite, type StoreName, type WorldSave, type WorldStorage } from './WorldStorage';
+
+// Worlds as directories on disk, for tests and tools running in Node:
+//   <root>/<world>/<store>/<key>.bin   Uint8Array values (sections)
+//   <root>/<world>/<store>/<key>.json  everything else
+// The fs module is passed in (`await import('node:fs/promises')`), so this file builds for the browser too.
+//
+// Commits can't be a single file-system operation, so they use a write-ahead directory:
+// the writes go to <world>/commit/, then a COMMITTED marker is renamed into place (the atomic step),
+// then everything is moved into the stores and the directory removed. Opening a world finishes
+// a commit that has its marker and throws away one that doesn't.
+
+// The parts of Node's fs/promises used here
+export type NodeFileSystem = {
+  readFile(path: string): Promise<Uint8Array>;
+  writeFile(path: string, data: Uint8Array | string): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  mkdir(path: string, options: { recursive: boolean }): Promise<unknown>;
+  rm(path: string, options: { recursive?: boolean, force?: boolean }): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  access(path: string): Promise<void>;
+};
+
+const COMMIT_DIR = 'commit';
+const COMMIT_MARKER = 'COMMITTED';
+
+export class NodeFileStorage implements WorldStorage {
+  private fs: NodeFileSystem;
+  private root: string;
+
+  constructor(fs: NodeFileSystem, root: string) {
+    this.fs = fs;
+    this.root = root;
+  }
+
+  async open(name: string): Promise<WorldSave> {
+    const dir = this.worldDir(name);
+    for (const store of STORE_NAMES) await this.fs.mkdir(`${dir}/${store}`, { recursive: true });
+    const save = new NodeFileSave(this.fs, dir);
+    await save.recover();
+    return save;
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.fs.rm(this.worldDir(name), { recursive: true, force: true });
+  }
+
+  private worldDir(name: string): string {
+    return `${this.root}/${encodeURIComponent(name)}`;
+  }
+}
+
+class NodeFileSave implements WorldSave {
+  private fs: NodeFileSystem;
+  private dir: string;
+  private queue: Promise<unknown> = Promise.resolve(); // Operations run one at a time, in call order
+
+  constructor(fs: NodeFileSystem, dir: string) {
+    this.fs = fs;
+    this.dir = dir;
+  }
+
+  async get(key: string, store: StoreName): Promise<any> {
+    return this.run(async () => {
+      const path = `${this.dir}/${store}/${encodeURIComponent(key)}`;
+      if (await this.exists(`${path}.bin`)) return new Uint8Array(await this.fs.readFile(`${path}.bin`));
+      if (await this.exists(`${path}.json`)) return JSON.parse(new TextDecoder().decode(await this.fs.readFile(`${path}.json`)));
+      return undefined;
+    });
+  }
+
+  async set(key: string, value: any, store: StoreName): Promise<void> {
+    return this.run(() => this.write(`${this.dir}/${store}`, key, value));
+  }
+
+  async keys(store: StoreName): Promise<string[]> {
+    return this.run(async () => (await this.fs.readdir(`${this.dir}/${store}`)).map(file => this.keyOf(file)));
+  }
+
+  async entries(store: StoreName): Promise<[string, any][]> {
+    const keys = await this.keys(store);
+    return Promise.all(keys.map(async (key): Promise<[string, any]> => [key, await this.get(key, store)]));
+  }
+
+  async setAll(records: [string, any][], store: StoreName): Promise<void> {
+    return this.run(async () => {
+      for (const [key, value] of records) await this.write(`${this.dir}/${store}`, key, value);
+    });
+  }
+
+  async commit(writes: StorageWrite[]): Promise<void> {
+    return this.run(async () => {
+      const commitDir = `${this.dir}/${COMMIT_DIR}`;
+      await this.fs.rm(commitDir, { recursive: true, force: true });
+      for (const store of STORE_NAMES) await this.fs.mkdir(`${commitDir}/${store}`, { recursive: true });
+      for (const { store, key, value } of writes) await this.write(`${commitDir}/${store}`, key, value);
+
+      await this.fs.writeFile(`${commitDir}/${COMMIT_MARKER}.tmp`, '');
+      await this.fs.rename(`${commitDir}/${COMMIT_MARKER}.tmp`, `${commitDir}/${COMMIT_MARKER}`);
+      await this.applyCommit();
+    });
+  }
+
+  async rollbackJournal(): Promise<number> {
+    return this.run(async () => {
+      const journal = `${this.dir}/journal`;
+      const files = await this.fs.readdir(journal);
+      await this.fs.rm(journal, { recursive: true, force: true });
+      await this.fs.mkdir(journal, { recursive: true });
+      return files.length;
+    });
+  }
+
+  close() {}
+
+  // Finishes or throws away a commit interrupted by a crash
+  public async recover() {
+    return this.run(async () => {
+      const commitDir = `${this.dir}/${COMMIT_DIR}`;
+      if (await this.exists(`${commitDir}/${COMMIT_MARKER}`)) {
+        await this.applyCommit();
+      } else {
+        await this.fs.rm(commitDir, { recursive: true, force: true });
+      }
+    });
+  }
+
+  // Journal into chunks first, then the commit's writes, so newer writes of a key win. Safe to repeat.
+  private async applyCommit() {
+    const commitDir = `${this.dir}/${COMMIT_DIR}`;
+    await this.moveAll(`${this.dir}/journal`, `${this.dir}/chunks`);
+    for (const store of STORE_NAMES) {
+      if (await this.exists(`${commitDir}/${store}`)) await this.moveAll(`${commitDir}/${store}`, `${this.dir}/${store}`);
+    }
+    await this.fs.rm(commitDir, { recursive: true, force: true });
+  }
+
+  private async moveAll(from: string, to: string) {
+    for (const file of await this.fs.readdir(from)) {
+      await this.removeKey(to, this.keyOf(file));
+      await this.fs.rename(`${from}/${file}`, `${to}/${file}`);
+    }
+  }
+
+  private async write(storeDir: string, key: string, value: any) {
+    await this.removeKey(storeDir, key); // The value may have changed type
+    const path = `${storeDir}/${encodeURIComponent(key)}`;
+    if (value instanceof Uint8Array) {
+      await this.fs.writeFile(`${path}.bin`, value);
+    } else {
+      await this.fs.writeFile(`${path}.json`, JSON.stringify(value));
+    }
+  }
+
+  private async removeKey(storeDir: string, key: string) {
+    const path = `${storeDir}/${encodeURIComponent(key)}`;
+    await this.fs.rm(`${path}.bin`, { force: true });
+    await this.fs.rm(`${path}.json`, { force: true });
+  }
+
+  private keyOf(file: string): string {
+    return decodeURIComponent(file.slice(0, file.lastIndexOf('.')));
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await this.fs.access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private run<T>(op: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(op);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
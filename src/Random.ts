@@ -0,0 +1,34 @@
+// Seeded randomness for world generation.
+// Generation must never call Math.random(): a chunk has to come out byte-identical
+// no matter when, where (main thread or worker) or in which order it is generated.
+
+// Mulberry32 PRNG, for seeding noise generators
+export function createSeededRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    let t = a += 0x6D2B79F5;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+// Murmur3 finalizer
+function mix(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h;
+}
+
+// Deterministic 0..1 value for a world position.
+// `salt` separates independent decisions made at the same block (tree chance, trunk height, ...).
+export function positionRandom(seed: number, x: number, y: number, z: number, salt: number): number {
+  let h = mix(seed ^ Math.imul(salt, 0x9E3779B1));
+  h = mix(h ^ x);
+  h = mix(h ^ y);
+  h = mix(h ^ z);
+  return (h >>> 0) / 4294967296;
+}
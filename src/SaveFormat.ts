@@ -0,0 +1,217 @@
+import { CHUNK_SIZE } from './WorldConstants';
+import { ITEM, getItemForBlock, getMaxStackSize, type ItemStack } from './Items';
+
+// On-disk formats of sections and player meta. Every record carries a format version;
+// older records are upgraded on read (and once for the whole database in DB.init),
+// so saves keep loading when block ids or the chunk layout change.
+
+export const SECTION_FORMAT_VERSION = 1;
+export const META_FORMAT_VERSION = 2;
+
+const SECTION_VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE;
+const MAGIC = [0x56, 0x58]; // "VX". Version 0 saves were raw block arrays, they never start with it (ids 86, 88 don't exist).
+const FLAG_LIGHT = 1;
+const FLAG_EXTRAS = 2;
+
+// Per-section data besides the blocks, stored as JSON
+export type SectionExtras = {
+  blockEntities?: Record<string, unknown>; // Keyed by block index in the section
+};
+
+export type SectionRecord = {
+  blocks: Uint8Array;
+  light?: Uint8Array; // Optional, light is normally derived on load
+  extras?: SectionExtras;
+};
+
+// Upgrades a record of version i to version i + 1, applied in order on read.
+// Block id remaps go here when ids change.
+const SECTION_MIGRATIONS: ((record: SectionRecord) => SectionRecord)[] = [
+  // 0 -> 1: raw block arrays got the header, the blocks are unchanged
+  (record) => record
+];
+
+// Section layout (index order x + y * 16 + z * 256):
+//   2 bytes  magic "VX"
+//   1 byte   format version
+//   1 byte   flags (FLAG_LIGHT, FLAG_EXTRAS)
+//   varint   palette size, then one varint block id per palette entry
+//   runs     (varint palette index, varint length) until all 4096 blocks are covered
+//   light    (FLAG_LIGHT) runs of (varint packed light, varint length)
+//   extras   (FLAG_EXTRAS) varint byte length, then UTF-8 JSON
+export function encodeSection(record: SectionRecord): Uint8Array {
+  const out: number[] = [...MAGIC, SECTION_FORMAT_VERSION, 0];
+  const hasExtras = record.extras !== undefined && Object.keys(record.extras).length > 0;
+  out[3] = (record.light ? FLAG_LIGHT : 0) | (hasExtras ? FLAG_EXTRAS : 0);
+
+  const palette: number[] = [];
+  const paletteIndex = new Map<number, number>();
+  for (const id of record.blocks) {
+    if (!paletteIndex.has(id)) {
+      paletteIndex.set(id, palette.length);
+      palette.push(id);
+    }
+  }
+  writeVarint(out, palette.length);
+  for (const id of palette) writeVarint(out, id);
+  writeRuns(out, record.blocks, (id) => paletteIndex.get(id)!);
+
+  if (record.light) writeRuns(out, record.light, (value) => value);
+  if (hasExtras) {
+    const json = new TextEncoder().encode(JSON.stringify(record.extras));
+    writeVarint(out, json.length);
+    for (const byte of json) out.push(byte);
+  }
+  return new Uint8Array(out);
+}
+
+// Any stored version to the current one. Throws on saves from a newer game version.
+export function readSection(stored: Uint8Array): SectionRecord {
+  let version: number;
+  let record: SectionRecord;
+
+  if (stored[0] !== MAGIC[0] || stored[1] !== MAGIC[1]) {
+    if (stored.length !== SECTION_VOLUME) throw new Error(`Unknown section data (${stored.length} bytes)`);
+    version = 0;
+    record = { blocks: stored };
+  } else {
+    version = stored[2];
+    if (version > SECTION_FORMAT_VERSION) throw new Error(`Section format ${version} is newer than this game (${SECTION_FORMAT_VERSION})`);
+    record = decodeSection(stored);
+  }
+
+  for (let v = version; v < SECTION_FORMAT_VERSION; v++) record = SECTION_MIGRATIONS[v](record);
+  return record;
+}
+
+export function isCurrentSection(stored: Uint8Array): boolean {
+  return stored[0] === MAGIC[0] && stored[1] === MAGIC[1] && stored[2] === SECTION_FORMAT_VERSION;
+}
+
+function decodeSection(stored: Uint8Array): SectionRecord {
+  const cursor = { data: stored, offset: 4 };
+  const flags = stored[3];
+
+  const palette: number[] = [];
+  const paletteSize = readVarint(cursor);
+  for (let i = 0; i < paletteSize; i++) palette.push(readVarint(cursor));
+  const record: SectionRecord = {
+    blocks: readRuns(cursor, (index) => {
+      if (index >= palette.length) throw new Error('Corrupt section palette');
+      return palette[index];
+    })
+  };
+
+  if (flags & FLAG_LIGHT) record.light = readRuns(cursor, (value) => value);
+  if (flags & FLAG_EXTRAS) {
+    const length = readVarint(cursor);
+    const json = stored.subarray(cursor.offset, cursor.offset + length);
+    cursor.offset += length;
+    record.extras = JSON.parse(new TextDecoder().decode(json));
+  }
+  return record;
+}
+
+// --- Player meta ---
+
+export type PlayerMeta = {
+  version: number;
+  seed: number;
+  position: { x: number, y: number, z: number };
+  inventory: ItemStack[]; // Validated with readItemStack when loaded
+};
+
+const META_MIGRATIONS: ((meta: any) => any)[] = [
+  // 0 -> 1: unversioned object with the same fields
+  (meta) => meta,
+  // 1 -> 2: inventory ids were block ids (tools from 256 up), items got their own ids, durability moved into meta
+  // and stacks got a size limit
+  (meta) => ({ ...meta, inventory: Array.isArray(meta.inventory) ? migrateLegacyInventory(meta.inventory) : [] })
+];
+
+// Version 1 ids of the items that weren't blocks
+const LEGACY_ITEM_IDS: Record<number, number> = {
+  256: ITEM.STICK,
+  257: ITEM.WOODEN_PICKAXE, 258: ITEM.WOODEN_AXE, 259: ITEM.WOODEN_SHOVEL, 260: ITEM.WOODEN_SWORD,
+  261: ITEM.STONE_PICKAXE, 262: ITEM.STONE_AXE, 263: ITEM.STONE_SHOVEL, 264: ITEM.STONE_SWORD,
+  265: ITEM.IRON_PICKAXE, 266: ITEM.IRON_AXE, 267: ITEM.IRON_SHOVEL, 268: ITEM.IRON_SWORD
+};
+
+// Oversized stacks are split into empty slots, as far as there are any
+function migrateLegacyInventory(inventory: any[]): ItemStack[] {
+  const slots = inventory.map(migrateLegacyStack);
+  const overflow: ItemStack[] = [];
+  for (const slot of slots) {
+    const max = getMaxStackSize(slot.id);
+    for (let count = slot.count - max; count > 0; count -= max) overflow.push({ ...slot, count: Math.min(count, max) });
+    slot.count = Math.min(slot.count, max);
+  }
+  for (let i = 0; i < slots.length && overflow.length > 0; i++) {
+    if (slots[i].id === 0) slots[i] = overflow.shift()!;
+  }
+  return slots;
+}
+
+function migrateLegacyStack(stack: any): ItemStack {
+  if (!stack || !stack.id || !(stack.count > 0)) return { id: 0, count: 0 };
+  const id = stack.id >= 256 ? LEGACY_ITEM_IDS[stack.id] : getItemForBlock(stack.id);
+  if (!id) return { id: 0, count: 0 };
+  return typeof stack.durability === 'number'
+    ? { id, count: stack.count, meta: { durability: stack.durability } }
+    : { id, count: stack.count };
+}
+
+export function readPlayerMeta(stored: any): PlayerMeta {
+  let meta = stored;
+  const version = meta.version ?? 0;
+  if (version > META_FORMAT_VERSION) throw new Error(`Save format ${version} is newer than this game (${META_FORMAT_VERSION})`);
+  for (let v = version; v < META_FORMAT_VERSION; v++) meta = META_MIGRATIONS[v](meta);
+  return { ...meta, version: META_FORMAT_VERSION };
+}
+
+// --- Varints and runs ---
+
+type Cursor = { data: Uint8Array, offset: number };
+
+// LEB128: 7 bits per byte, high bit set on all but the last byte
+function writeVarint(out: number[], value: number) {
+  while (value >= 0x80) {
+    out.push((value & 0x7F) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+}
+
+function readVarint(cursor: Cursor): number {
+  let value = 0;
+  let shift = 0;
+  for (;;) {
+    if (cursor.offset >= cursor.data.length) throw new Error('Truncated section data');
+    const byte = cursor.data[cursor.offset++];
+    value |= (byte & 0x7F) << shift;
+    if (byte < 0x80) return value >>> 0;
+    shift += 7;
+  }
+}
+
+function writeRuns(out: number[], values: Uint8Array, map: (value: number) => number) {
+  for (let i = 0; i < values.length; ) {
+    let length = 1;
+    while (i + length < values.length && values[i + length] === values[i]) length++;
+    writeVarint(out, map(values[i]));
+    writeVarint(out, length);
+    i += length;
+  }
+}
+
+function readRuns(cursor: Cursor, map: (value: number) => number): Uint8Array {
+  const values = new Uint8Array(SECTION_VOLUME);
+  for (let i = 0; i < SECTION_VOLUME; ) {
+    const value = map(readVarint(cursor));
+    const length = readVarint(cursor);
+    if (length === 0 || i + length > SECTION_VOLUME) throw new Error('Corrupt section data');
+    values.fill(value, i, i + length);
+    i += length;
+  }
+  return values;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { TerrainGenerator, type BlockEdit } from './TerrainGenerator';
+import { World, SECTIONS_PER_CHUNK } from './World';
+import { MemoryStorage } from './MemoryStorage';
+import { InlineJobRunner } from './InlineJobRunner';
+import { BLOCK } from './Blocks';
+
+const SEED = 1234;
+const CENTER: [number, number] = [0, 0];
+const NEIGHBORS: [number, number][] = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+const sortEdits = (edits: BlockEdit[]) =>
+  [...edits].sort((a, b) => a.x - b.x || a.y - b.y || a.z - b.z || a.type - b.type);
+
+// Generates the columns in the given order through the World's job path, structure edits included
+async function generateInOrder(order: [number, number][]) {
+  const jobs = new InlineJobRunner(false);
+  const world = new World(new MemoryStorage(), jobs);
+  await world.loadWorld('test', SEED);
+  for (const [cx, cz] of order) {
+    world['generateChunk'](cx, cz);
+    jobs.runAll();
+  }
+  return world;
+}
+
+function columnBlocks(world: World, cx: number, cz: number): Uint8Array[] {
+  const sections: Uint8Array[] = [];
+  for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) sections.push(world.getSectionData(cx, cy, cz)!.blocks);
+  return sections;
+}
+
+function pendingEdits(world: World): Record<string, BlockEdit[]> {
+  const pending: Map<string, BlockEdit[]> = world['pendingEdits'];
+  return Object.fromEntries(Array.from(pending, ([key, edits]) => [key, sortEdits(edits)]));
+}
+
+describe('TerrainGenerator', () => {
+  it('generates a column the same alone and after its neighbors', () => {
+    const alone = new TerrainGenerator(SEED).generateColumn(...CENTER);
+
+    const generator = new TerrainGenerator(SEED);
+    for (const [cx, cz] of NEIGHBORS) generator.generateColumn(cx, cz);
+    const after = generator.generateColumn(...CENTER);
+
+    expect(after.sections).toEqual(alone.sections);
+    expect(sortEdits(after.edits)).toEqual(sortEdits(alone.edits));
+  });
+
+  it('has structures crossing column borders in the tested area', () => {
+    const generator = new TerrainGenerator(SEED);
+    const edits = [CENTER, ...NEIGHBORS].flatMap(([cx, cz]) => generator.generateColumn(cx, cz).edits);
+    expect(edits.length).toBeGreaterThan(0);
+  });
+});
+
+describe('World generation order', () => {
+  it('ends up with the same blocks and pending edits whichever column loads first', async () => {
+    const centerFirst = await generateInOrder([CENTER, ...NEIGHBORS]);
+    const neighborsFirst = await generateInOrder([...NEIGHBORS].reverse().concat([CENTER]));
+
+    for (const [cx, cz] of [CENTER, ...NEIGHBORS]) {
+      expect(columnBlocks(neighborsFirst, cx, cz), `column ${cx},${cz}`).toEqual(columnBlocks(centerFirst, cx, cz));
+    }
+    expect(pendingEdits(neighborsFirst)).toEqual(pendingEdits(centerFirst));
+  });
+
+  it('places leaves that neighbors spill into a column loaded later', async () => {
+    const world = await generateInOrder([CENTER, ...NEIGHBORS]);
+    const fresh = new TerrainGenerator(SEED);
+    const spilled = NEIGHBORS.flatMap(([cx, cz]) => fresh.generateColumn(cx, cz).edits)
+      .filter(edit => Math.floor(edit.x / 16) === CENTER[0] && Math.floor(edit.z / 16) === CENTER[1]);
+
+    for (const edit of spilled) {
+      const block = world.getBlock(edit.x, edit.y, edit.z);
+      // Edits only grow into air (or wood through leaves), so the block is the edit's or a structure's
+      expect([edit.type, BLOCK.WOOD, BLOCK.LEAVES]).toContain(block);
+    }
+  });
+});
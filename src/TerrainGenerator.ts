@@ -0,0 +1,317 @@
+import { createNoise2D, createNoise3D } from 'simplex-noise';
+import { CHUNK_SIZE, WORLD_HEIGHT, SECTIONS_PER_CHUNK } from './WorldConstants';
+import { BLOCK } from './Blocks';
+import { createSeededRandom, positionRandom } from './Random';
+import { getBiomeWeights, SEA_LEVEL, SNOW_LINE, FILLER_DEPTH, type Biome, type BiomeWeight } from './Biomes';
+
+// Salts for positionRandom, one per independent generation decision
+const SALT = {
+  TREE: 1,
+  TRUNK_HEIGHT: 2,
+  LEAF_CORNER: 3,
+  ORES: 4
+};
+
+// Separate noise fields per seed, so climate is independent of terrain shape
+const NOISE_SEED_OFFSET = {
+  TEMPERATURE: 1,
+  HUMIDITY: 2,
+  TUNNEL_A: 3,
+  TUNNEL_B: 4,
+  CAVERN: 5
+};
+
+// Ore veins: `attempts` veins per column between minY and maxY, each a random walk of `size` blocks
+const ORE_VEINS = [
+  { type: BLOCK.COAL_ORE, attempts: 20, minY: 5, maxY: 128, size: 8 },
+  { type: BLOCK.IRON_ORE, attempts: 12, minY: 5, maxY: 64, size: 6 },
+  { type: BLOCK.GOLD_ORE, attempts: 4, minY: 5, maxY: 32, size: 5 },
+  { type: BLOCK.DIAMOND_ORE, attempts: 2, minY: 5, maxY: 16, size: 4 }
+];
+
+// A structure block that falls outside the column being generated (world coordinates)
+export type BlockEdit = { x: number, y: number, z: number, type: number };
+
+export type GeneratedColumn = {
+  sections: Uint8Array[]; // Bottom to top
+  edits: BlockEdit[]; // Destined for neighbor columns
+};
+
+// Structure blocks only grow into air, and leaves give way to wood.
+// That keeps overlapping structures independent of the order they are placed in,
+// including edits that reach a neighbor column before or after it generates.
+export function canStructureReplace(existing: number, type: number): boolean {
+  if (existing === BLOCK.AIR) return true;
+  return existing === BLOCK.LEAVES && type === BLOCK.WOOD;
+}
+
+// Pure terrain generation: seed + column coordinates in, section data out.
+// Has no THREE/DB dependencies so it can run inside the chunk workers.
+export class TerrainGenerator {
+  public readonly seed: number;
+  private noise2D: (x: number, y: number) => number;
+  private temperatureNoise: (x: number, y: number) => number;
+  private humidityNoise: (x: number, y: number) => number;
+  private tunnelNoiseA: (x: number, y: number, z: number) => number;
+  private tunnelNoiseB: (x: number, y: number, z: number) => number;
+  private cavernNoise: (x: number, y: number, z: number) => number;
+
+  // Terrain Settings
+  private TERRAIN_SCALE = 50;
+  private RIDGE_SCALE = 120;
+  private CLIMATE_SCALE = 400; // Roughly how wide a biome is, in blocks
+
+  // Cave Settings
+  private TUNNEL_SCALE = 40;
+  private TUNNEL_RADIUS = 0.08; // Carved where both tunnel fields are close to zero
+  private CAVERN_SCALE = 60;
+  private CAVERN_THRESHOLD = 0.6;
+  private CAVERN_MAX_Y = 40; // Large caverns only deep down
+  private LAVA_LEVEL = 10; // Caves at and below this height are flooded with lava
+
+  constructor(seed: number) {
+    this.seed = seed;
+    this.noise2D = this.createNoiseGenerator(0);
+    this.temperatureNoise = this.createNoiseGenerator(NOISE_SEED_OFFSET.TEMPERATURE);
+    this.humidityNoise = this.createNoiseGenerator(NOISE_SEED_OFFSET.HUMIDITY);
+    this.tunnelNoiseA = createNoise3D(createSeededRandom(this.seed + NOISE_SEED_OFFSET.TUNNEL_A));
+    this.tunnelNoiseB = createNoise3D(createSeededRandom(this.seed + NOISE_SEED_OFFSET.TUNNEL_B));
+    this.cavernNoise = createNoise3D(createSeededRandom(this.seed + NOISE_SEED_OFFSET.CAVERN));
+  }
+
+  private createNoiseGenerator(offset: number) {
+      return createNoise2D(createSeededRandom(this.seed + offset));
+  }
+
+  // Tunnels: the thin zero-crossing shared by two 3D noise fields (long winding tubes).
+  // Caverns: blobs where a third, slower field peaks.
+  private isCave(worldX: number, y: number, worldZ: number): boolean {
+      // Squash y so tunnels run more horizontally than vertically
+      const tx = worldX / this.TUNNEL_SCALE;
+      const ty = y / (this.TUNNEL_SCALE * 0.6);
+      const tz = worldZ / this.TUNNEL_SCALE;
+      const a = this.tunnelNoiseA(tx, ty, tz);
+      if (Math.abs(a) < this.TUNNEL_RADIUS) {
+          const b = this.tunnelNoiseB(tx, ty, tz);
+          if (a * a + b * b < this.TUNNEL_RADIUS * this.TUNNEL_RADIUS) return true;
+      }
+
+      if (y < this.CAVERN_MAX_Y) {
+          const c = this.cavernNoise(worldX / this.CAVERN_SCALE, y / (this.CAVERN_SCALE * 0.5), worldZ / this.CAVERN_SCALE);
+          // Fade the threshold near the top so caverns don't end in a flat ceiling
+          const fade = Math.max(0, (y - (this.CAVERN_MAX_Y - 10)) / 10);
+          if (c > this.CAVERN_THRESHOLD + fade * 0.4) return true;
+      }
+      return false;
+  }
+
+  // Veins only replace stone, so they never show up floating in caves or in the filler layer
+  private placeOres(sections: Uint8Array[], cx: number, cz: number) {
+      const random = createSeededRandom(Math.floor(this.random(cx, 0, cz, SALT.ORES) * 4294967296));
+      for (const vein of ORE_VEINS) {
+          for (let i = 0; i < vein.attempts; i++) {
+              let x = Math.floor(random() * CHUNK_SIZE);
+              let y = vein.minY + Math.floor(random() * (vein.maxY - vein.minY));
+              let z = Math.floor(random() * CHUNK_SIZE);
+
+              for (let step = 0; step < vein.size; step++) {
+                  if (this.getColumnBlock(sections, x, y, z) === BLOCK.STONE) {
+                      this.setColumnBlock(sections, x, y, z, vein.type);
+                  }
+                  // Walk to a random neighbor, staying inside the column
+                  const axis = Math.floor(random() * 3);
+                  const dir = random() < 0.5 ? -1 : 1;
+                  if (axis === 0) x = Math.min(CHUNK_SIZE - 1, Math.max(0, x + dir));
+                  else if (axis === 1) y = Math.max(1, y + dir);
+                  else z = Math.min(CHUNK_SIZE - 1, Math.max(0, z + dir));
+              }
+          }
+      }
+  }
+
+  private getBiomeWeightsAt(worldX: number, worldZ: number): BiomeWeight[] {
+      const temperature = this.temperatureNoise(worldX / this.CLIMATE_SCALE, worldZ / this.CLIMATE_SCALE);
+      const humidity = this.humidityNoise(worldX / this.CLIMATE_SCALE, worldZ / this.CLIMATE_SCALE);
+      return getBiomeWeights(temperature, humidity);
+  }
+
+  // Dominant biome of a world column
+  public getBiome(worldX: number, worldZ: number): Biome {
+      return this.getBiomeWeightsAt(worldX, worldZ)[0].biome;
+  }
+
+  // Each biome's height curve, blended by its climate weight
+  private getTerrainHeight(worldX: number, worldZ: number, weights: BiomeWeight[]): number {
+      const hills = this.noise2D(worldX / this.TERRAIN_SCALE, worldZ / this.TERRAIN_SCALE); // -1..1
+      let height = 0;
+      for (const { biome, weight } of weights) {
+          let shape = hills;
+          if (biome.ridged) {
+              // 0 in the valleys, 1 on the ridge lines
+              const ridge = 1 - Math.abs(this.noise2D(worldX / this.RIDGE_SCALE, worldZ / this.RIDGE_SCALE));
+              shape = ridge * ridge + hills * 0.1;
+          }
+          height += weight * (biome.baseHeight + shape * biome.heightVariation);
+      }
+      return Math.floor(height);
+  }
+
+  // All generation randomness comes from the seed and world coordinates
+  private random(worldX: number, worldY: number, worldZ: number, salt: number): number {
+      return positionRandom(this.seed, worldX, worldY, worldZ, salt);
+  }
+
+  private getBlockIndex(x: number, y: number, z: number): number {
+    return x + y * CHUNK_SIZE + z * CHUNK_SIZE * CHUNK_SIZE;
+  }
+
+  // Column-local write helper; y spans the full world height
+  private setColumnBlock(sections: Uint8Array[], x: number, y: number, z: number, type: number) {
+    if (y < 0 || y >= WORLD_HEIGHT) return;
+    const cy = Math.floor(y / CHUNK_SIZE);
+    sections[cy][this.getBlockIndex(x, y - cy * CHUNK_SIZE, z)] = type;
+  }
+
+  private getColumnBlock(sections: Uint8Array[], x: number, y: number, z: number): number {
+    if (y < 0 || y >= WORLD_HEIGHT) return BLOCK.AIR;
+    const cy = Math.floor(y / CHUNK_SIZE);
+    return sections[cy][this.getBlockIndex(x, y - cy * CHUNK_SIZE, z)];
+  }
+
+  // Places a structure block; anything outside the column is handed back as an edit
+  private placeStructureBlock(column: GeneratedColumn, x: number, y: number, z: number, type: number, originX: number, originZ: number) {
+    if (y < 0 || y >= WORLD_HEIGHT) return;
+    if (x < 0 || x >= CHUNK_SIZE || z < 0 || z >= CHUNK_SIZE) {
+      column.edits.push({ x: originX + x, y, z: originZ + z, type });
+      return;
+    }
+    if (canStructureReplace(this.getColumnBlock(column.sections, x, y, z), type)) {
+      this.setColumnBlock(column.sections, x, y, z, type);
+    }
+  }
+
+  // startX/startZ are column-local (may sit on the border), originX/originZ the column's world offset
+  private placeTree(column: GeneratedColumn, startX: number, startY: number, startZ: number, originX: number, originZ: number) {
+    const trunkHeight = Math.floor(this.random(originX + startX, startY, originZ + startZ, SALT.TRUNK_HEIGHT) * 2) + 4; // 4-5 blocks
+
+    // Trunk
+    for (let y = 0; y < trunkHeight; y++) {
+      this.placeStructureBlock(column, startX, startY + y, startZ, BLOCK.WOOD, originX, originZ);
+    }
+
+    // Leaves (Volumetric)
+    const leavesStart = startY + trunkHeight - 2;
+    const leavesEnd = startY + trunkHeight + 1; // 1 block above trunk top
+
+    for (let y = leavesStart; y <= leavesEnd; y++) {
+      const dy = y - (startY + trunkHeight - 1); // Distance from top of trunk
+      let radius = 2;
+      if (dy === 2) radius = 1; // Top tip
+      else if (dy === -1) radius = 2; // Bottomest layer
+
+      for (let x = startX - radius; x <= startX + radius; x++) {
+        for (let z = startZ - radius; z <= startZ + radius; z++) {
+          // Corner rounding
+          const dx = x - startX;
+          const dz = z - startZ;
+          if (Math.abs(dx) === radius && Math.abs(dz) === radius) {
+             // Skip corners randomly to make it less square
+             if (this.random(originX + x, y, originZ + z, SALT.LEAF_CORNER) < 0.4) continue;
+          }
+
+          // Leaves never overwrite the trunk (see canStructureReplace)
+          this.placeStructureBlock(column, x, y, z, BLOCK.LEAVES, originX, originZ);
+        }
+      }
+    }
+  }
+
+  public generateColumn(cx: number, cz: number): GeneratedColumn {
+    const sections: Uint8Array[] = [];
+    for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+      sections.push(new Uint8Array(CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE));
+    }
+    const column: GeneratedColumn = { sections, edits: [] };
+    const startX = cx * CHUNK_SIZE;
+    const startZ = cz * CHUNK_SIZE;
+
+    const columnBiomes: Biome[] = []; // Dominant biome per x,z, reused by the tree pass
+
+    // 1. Generate Terrain
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const worldX = startX + x;
+        const worldZ = startZ + z;
+
+        const weights = this.getBiomeWeightsAt(worldX, worldZ);
+        const biome = weights[0].biome;
+        columnBiomes[x + z * CHUNK_SIZE] = biome;
+        let height = this.getTerrainHeight(worldX, worldZ, weights);
+
+        if (height < 1) height = 1;
+        if (height >= WORLD_HEIGHT) height = WORLD_HEIGHT - 1;
+
+        // Shores and sea floor are sand, high peaks are snowy whatever the biome
+        let surface = biome.surfaceBlock;
+        let filler = biome.fillerBlock;
+        if (height <= SEA_LEVEL + 1) {
+          surface = BLOCK.SAND;
+          filler = BLOCK.SAND;
+        } else if (height >= SNOW_LINE) {
+          surface = BLOCK.SNOW;
+        }
+
+        for (let y = 0; y <= height; y++) {
+          let type = BLOCK.STONE;
+          if (y === 0) type = BLOCK.BEDROCK;
+          else if (y === height) type = surface;
+          else if (y >= height - FILLER_DEPTH) type = filler;
+
+          this.setColumnBlock(sections, x, y, z, type);
+        }
+
+        // Flood everything below sea level
+        for (let y = height + 1; y <= SEA_LEVEL; y++) {
+          this.setColumnBlock(sections, x, y, z, BLOCK.WATER);
+        }
+
+        // Carve caves. Keep a roof under water and shores so the sea doesn't hang over open caves.
+        const caveTop = height <= SEA_LEVEL + 1 ? height - 5 : height;
+        for (let y = 1; y <= caveTop; y++) {
+          if (this.isCave(worldX, y, worldZ)) {
+            this.setColumnBlock(sections, x, y, z, y <= this.LAVA_LEVEL ? BLOCK.LAVA : BLOCK.AIR);
+          }
+        }
+      }
+    }
+
+    this.placeOres(sections, cx, cz);
+
+    // 2. Generate Trees (Second Pass)
+    // Trees may sit right on the border; leaves reaching into neighbors become edits
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+         // Find surface height
+         let height = -1;
+         for (let y = WORLD_HEIGHT - 1; y >= 0; y--) {
+            if (this.getColumnBlock(sections, x, y, z) !== BLOCK.AIR) {
+               height = y;
+               break;
+            }
+         }
+
+         if (height > SEA_LEVEL) {
+            const biome = columnBiomes[x + z * CHUNK_SIZE];
+            const ground = this.getColumnBlock(sections, x, height, z);
+            if (ground === BLOCK.GRASS || ground === BLOCK.SNOW) {
+               if (this.random(startX + x, height, startZ + z, SALT.TREE) < biome.treeDensity) {
+                  this.placeTree(column, x, height + 1, z, startX, startZ);
+               }
+            }
+         }
+      }
+    }
+
+    return column;
+  }
+}
@@ -0,0 +1,422 @@
+import * as THREE from 'three';
+import { BLOCK, getBlockDef, getFaceColor, getFaceTile, getTileNames, getTileOwner, type RGB } from './Blocks';
+import { getItemDef, type ItemDefinition } from './Items';
+import { createSeededRandom } from './Random';
+
+// Block texture atlas. Tiles are named by the block declarations (texture / faceTextures in Blocks.ts)
+// and every tile is painted procedurally first; a resource pack can replace any of them with a PNG.
+//
+// Resource packs live in public/resourcepacks/<id>/ and are listed in public/resourcepacks/packs.json
+// as [{ "id": "...", "name": "..." }]. Each pack has a pack.json:
+//   { "name": "My pack", "tileSize": 16, "textures": { "grass_top": "grass_top.png", ... } }
+// Tiles the pack doesn't list keep their procedural texture.
+
+export const RESOURCE_PACKS_URL = 'resourcepacks';
+const PROCEDURAL_TILE_SIZE = 16;
+const COLUMNS = 16; // Tiles per atlas row
+const ICON_SIZE = 32;
+
+export type ResourcePackInfo = { id: string, name: string };
+type PackManifest = { name: string, tileSize?: number, textures: Record<string, string> };
+
+type Painter = (pixel: (x: number, y: number, color: RGB, alpha?: number) => void, color: RGB, random: () => number) => void;
+
+export class TextureAtlas {
+  // Chunks: one layer per tile, so mipmaps and repeating UVs never reach into a neighbor tile
+  public readonly arrayTexture: THREE.DataArrayTexture;
+  // Entities: the atlas as one flat texture, tiles addressed with getTileUv
+  public readonly texture: THREE.CanvasTexture;
+
+  private canvas: HTMLCanvasElement;
+  private tileSize = PROCEDURAL_TILE_SIZE;
+  private procedural: HTMLCanvasElement[] = [];
+  private itemIcons: Map<number, string> = new Map();
+  private itemTextures: Map<number, THREE.CanvasTexture> = new Map(); // Dropped items that aren't block items
+  private version = 0; // Bumped on every pack change, drops late image loads of the previous pack
+
+  constructor() {
+    this.procedural = getTileNames().map((_, tile) => this.paintProceduralTile(tile));
+    this.canvas = document.createElement('canvas');
+
+    this.arrayTexture = new THREE.DataArrayTexture(new Uint8Array(4), 1, 1, 1);
+    this.arrayTexture.magFilter = THREE.NearestFilter;
+    this.arrayTexture.minFilter = THREE.NearestMipmapLinearFilter;
+    this.arrayTexture.wrapS = THREE.RepeatWrapping;
+    this.arrayTexture.wrapT = THREE.RepeatWrapping;
+    this.arrayTexture.generateMipmaps = true;
+
+    this.texture = new THREE.CanvasTexture(this.canvas);
+    this.texture.magFilter = THREE.NearestFilter;
+    this.texture.minFilter = THREE.NearestFilter;
+    this.texture.generateMipmaps = false;
+
+    this.compose(new Map());
+  }
+
+  public get tileCount(): number {
+    return getTileNames().length;
+  }
+
+  // Packs listed in packs.json; an empty list if there is none
+  public static async listResourcePacks(): Promise<ResourcePackInfo[]> {
+    try {
+      const response = await fetch(`${RESOURCE_PACKS_URL}/packs.json`);
+      if (!response.ok) return [];
+      return await response.json();
+    } catch {
+      return [];
+    }
+  }
+
+  // Swaps in the tiles of a pack, or back to the procedural textures for null.
+  // Missing or broken images fall back to their procedural tile.
+  public async loadResourcePack(id: string | null): Promise<void> {
+    const version = ++this.version;
+    const images = new Map<number, HTMLImageElement>();
+    let tileSize = PROCEDURAL_TILE_SIZE;
+
+    if (id) {
+      const base = `${RESOURCE_PACKS_URL}/${id}`;
+      try {
+        const response = await fetch(`${base}/pack.json`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const manifest: PackManifest = await response.json();
+        tileSize = manifest.tileSize ?? PROCEDURAL_TILE_SIZE;
+
+        const names = getTileNames();
+        await Promise.all(Object.entries(manifest.textures).map(async ([name, file]) => {
+          const tile = names.indexOf(name);
+          if (tile === -1) return; // Texture for a block this version doesn't have
+          try {
+            images.set(tile, await loadImage(`${base}/${file}`));
+          } catch {
+            console.warn(`Resource pack ${id}: could not load ${file}`);
+          }
+        }));
+      } catch (e) {
+        console.error(`Failed to load resource pack ${id}:`, e);
+      }
+    }
+
+    if (version !== this.version) return; // Another pack was picked meanwhile
+    this.tileSize = tileSize;
+    this.compose(images);
+  }
+
+  // Rectangle of a tile in the flat texture (flipY), inset by half a pixel against bleeding
+  public getTileUv(tile: number): { u0: number, v0: number, u1: number, v1: number } {
+    const rows = Math.ceil(this.tileCount / COLUMNS);
+    const width = COLUMNS * this.tileSize;
+    const height = rows * this.tileSize;
+    const x = (tile % COLUMNS) * this.tileSize;
+    const y = Math.floor(tile / COLUMNS) * this.tileSize;
+    return {
+      u0: (x + 0.5) / width,
+      u1: (x + this.tileSize - 0.5) / width,
+      v0: 1 - (y + this.tileSize - 0.5) / height,
+      v1: 1 - (y + 0.5) / height
+    };
+  }
+
+  // Flat sprite texture of an item that doesn't place a block (tools, sticks), for dropped items.
+  // Items are always procedural, resource packs only cover block tiles.
+  public getItemTexture(id: number): THREE.CanvasTexture {
+    let texture = this.itemTextures.get(id);
+    if (!texture) {
+      texture = new THREE.CanvasTexture(paintItemSprite(getItemDef(id)));
+      texture.magFilter = THREE.NearestFilter;
+      texture.minFilter = THREE.NearestFilter;
+      this.itemTextures.set(id, texture);
+    }
+    return texture;
+  }
+
+  // Inventory slot icon (data URL) of an item: an isometric cube drawn from the block's own tiles, or the item's sprite
+  public getItemIcon(itemId: number): string {
+    const cached = this.itemIcons.get(itemId);
+    if (cached) return cached;
+
+    const item = getItemDef(itemId);
+    const url = item?.block != null ? this.paintBlockIcon(item.block) : this.paintSpriteIcon(item);
+    this.itemIcons.set(itemId, url);
+    return url;
+  }
+
+  private paintSpriteIcon(item: ItemDefinition | undefined): string {
+    const icon = document.createElement('canvas');
+    icon.width = ICON_SIZE;
+    icon.height = ICON_SIZE;
+    const ctx = icon.getContext('2d')!;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(paintItemSprite(item), 0, 0, ICON_SIZE, ICON_SIZE);
+    return icon.toDataURL();
+  }
+
+  private paintBlockIcon(id: number): string {
+    const icon = document.createElement('canvas');
+    icon.width = ICON_SIZE;
+    icon.height = ICON_SIZE;
+    const ctx = icon.getContext('2d')!;
+    ctx.imageSmoothingEnabled = false;
+
+    const half = ICON_SIZE / 2;
+    const quarter = ICON_SIZE / 4;
+    const unit = 1 / this.tileSize;
+    // [tile, canvas transform of the tile square, shade]
+    const faces: [number, number[], number][] = [
+      [getFaceTile(id, 'top'), [half * unit, -quarter * unit, half * unit, quarter * unit, 0, quarter], 0],
+      [getFaceTile(id, 'left'), [half * unit, quarter * unit, 0, half * unit, 0, quarter], 0.2],
+      [getFaceTile(id, 'right'), [half * unit, -quarter * unit, 0, half * unit, half, half], 0.4]
+    ];
+    for (const [tile, transform, shade] of faces) {
+      const [a, b, c, d, e, f] = transform;
+      ctx.setTransform(a, b, c, d, e, f);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.drawImage(this.canvas, (tile % COLUMNS) * this.tileSize, Math.floor(tile / COLUMNS) * this.tileSize,
+        this.tileSize, this.tileSize, 0, 0, this.tileSize, this.tileSize);
+      if (shade > 0) {
+        // Darken only the pixels just drawn (leaves keep their holes)
+        ctx.globalCompositeOperation = 'source-atop';
+        ctx.fillStyle = `rgba(0, 0, 0, ${shade})`;
+        ctx.fillRect(0, 0, this.tileSize, this.tileSize);
+      }
+    }
+
+    return icon.toDataURL();
+  }
+
+  // Draws every tile into the atlas canvas and re-uploads both textures
+  private compose(images: Map<number, HTMLImageElement>) {
+    const size = this.tileSize;
+    const count = this.tileCount;
+    this.canvas.width = COLUMNS * size;
+    this.canvas.height = Math.ceil(count / COLUMNS) * size;
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.imageSmoothingEnabled = false;
+
+    for (let tile = 0; tile < count; tile++) {
+      const x = (tile % COLUMNS) * size;
+      const y = Math.floor(tile / COLUMNS) * size;
+      ctx.drawImage(images.get(tile) ?? this.procedural[tile], x, y, size, size);
+    }
+
+    // Layers are stored bottom row first so v = 0 is the bottom of the tile, like the flat texture
+    const data = new Uint8Array(size * size * 4 * count);
+    for (let tile = 0; tile < count; tile++) {
+      const pixels = ctx.getImageData((tile % COLUMNS) * size, Math.floor(tile / COLUMNS) * size, size, size).data;
+      for (let row = 0; row < size; row++) {
+        const from = (size - 1 - row) * size * 4;
+        data.set(pixels.subarray(from, from + size * 4), (tile * size + row) * size * 4);
+      }
+    }
+
+    this.arrayTexture.dispose(); // The layer size may have changed, reallocate on the GPU
+    this.arrayTexture.image = { data, width: size, height: size, depth: count };
+    this.arrayTexture.needsUpdate = true;
+    this.texture.needsUpdate = true;
+    this.itemIcons.clear();
+  }
+
+  private paintProceduralTile(tile: number): HTMLCanvasElement {
+    const size = PROCEDURAL_TILE_SIZE;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(size, size);
+
+    const pixel = (x: number, y: number, color: RGB, alpha = 1) => {
+      const i = (x + y * size) * 4;
+      image.data[i] = color[0] * 255;
+      image.data[i + 1] = color[1] * 255;
+      image.data[i + 2] = color[2] * 255;
+      image.data[i + 3] = alpha * 255;
+    };
+
+    const name = getTileNames()[tile];
+    const { def, face } = getTileOwner(tile);
+    const color = getFaceColor(def.id, face);
+    const painter = PAINTERS[name] ?? (name.endsWith('_ore') ? paintOre : paintNoise);
+    painter(pixel, color, createSeededRandom(tile + 1)); // Same textures on every run
+
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+}
+
+const scale = (color: RGB, factor: number): RGB => [color[0] * factor, color[1] * factor, color[2] * factor];
+
+// --- Procedural textures (16x16) ---
+
+// Plain speckled color, the look every block had before the atlas
+const paintNoise: Painter = (pixel, color, random) => {
+  for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+    for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) pixel(x, y, scale(color, 0.6 + random() * 0.4));
+  }
+};
+
+// Stone with clusters of the ore's color
+const paintOre: Painter = (pixel, color, random) => {
+  paintNoise(pixel, getBlockDef(BLOCK.STONE).color, random);
+  for (let cluster = 0; cluster < 5; cluster++) {
+    const cx = 2 + Math.floor(random() * 12);
+    const cy = 2 + Math.floor(random() * 12);
+    for (let i = 0; i < 4; i++) {
+      pixel(cx + Math.floor(random() * 3) - 1, cy + Math.floor(random() * 3) - 1, scale(color, 0.8 + random() * 0.2));
+    }
+  }
+};
+
+const PAINTERS: Record<string, Painter> = {
+  // Dirt with a ragged strip of grass along the top edge
+  grass_side: (pixel, color, random) => {
+    paintNoise(pixel, color, random);
+    const grass = getBlockDef(BLOCK.GRASS).faceColors!.top!;
+    for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) {
+      const depth = 3 + Math.floor(random() * 3);
+      for (let y = 0; y < depth; y++) pixel(x, y, scale(grass, 0.7 + random() * 0.3));
+    }
+  },
+  // Log end grain: growth rings around the center, bark on the rim
+  wood_top: (pixel, color, random) => {
+    const bark = getBlockDef(BLOCK.WOOD).color;
+    for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+      for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) {
+        const edge = Math.min(x, y, PROCEDURAL_TILE_SIZE - 1 - x, PROCEDURAL_TILE_SIZE - 1 - y);
+        const ring = Math.floor(Math.hypot(x - 7.5, y - 7.5)) % 2;
+        const shade = 0.8 + random() * 0.1 + ring * 0.1;
+        pixel(x, y, edge === 0 ? scale(bark, shade) : scale(color, shade));
+      }
+    }
+  },
+  // Bark: vertical grooves
+  wood: (pixel, color, random) => {
+    const grooves = Array.from({ length: PROCEDURAL_TILE_SIZE }, () => 0.65 + random() * 0.35);
+    for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+      for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) pixel(x, y, scale(color, grooves[x] * (0.9 + random() * 0.1)));
+    }
+  },
+  // Cutout: about 40% of the pixels are holes
+  leaves: (pixel, color, random) => {
+    for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+      for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) pixel(x, y, scale(color, 0.6 + random() * 0.4), random() < 0.4 ? 0 : 1);
+    }
+  },
+  // Stone front with a dark mouth in the lower half
+  furnace: (pixel, color, random) => {
+    paintNoise(pixel, color, random);
+    for (let y = 8; y < 14; y++) {
+      for (let x = 4; x < 12; x++) pixel(x, y, scale([0.1, 0.1, 0.1], 0.8 + random() * 0.4));
+    }
+    for (let x = 3; x < 13; x++) pixel(x, 7, scale(color, 0.5));
+  },
+  // Cutout: a frame and a few glints, the rest is see-through
+  glass: (pixel, color, random) => {
+    const last = PROCEDURAL_TILE_SIZE - 1;
+    for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+      for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) {
+        const frame = x === 0 || y === 0 || x === last || y === last;
+        const glint = (x - y === 4 || x - y === 6) && x > 3 && x < 12;
+        pixel(x, y, scale(color, 0.9 + random() * 0.1), frame || glint ? 1 : 0);
+      }
+    }
+  },
+  water: (pixel, color, random) => {
+    for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+      for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) pixel(x, y, scale(color, 0.85 + random() * 0.15));
+    }
+  },
+  lava: (pixel, color, random) => {
+    for (let y = 0; y < PROCEDURAL_TILE_SIZE; y++) {
+      for (let x = 0; x < PROCEDURAL_TILE_SIZE; x++) {
+        const hot = random() < 0.15;
+        pixel(x, y, hot ? [1, 0.85, 0.3] : scale(color, 0.8 + random() * 0.2));
+      }
+    }
+  }
+};
+
+// --- Item sprites (16x16, transparent background) ---
+
+const HANDLE_COLOR: RGB = [0.45, 0.3, 0.15];
+
+// Handle from the bottom left corner up to (x, y)
+const drawHandle = (line: (x0: number, y0: number, x1: number, y1: number, color: RGB) => void, x: number, y: number) =>
+  line(2, 13, x, y, HANDLE_COLOR);
+
+function paintItemSprite(item: ItemDefinition | undefined): HTMLCanvasElement {
+  const size = PROCEDURAL_TILE_SIZE;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(size, size);
+
+  const pixel = (x: number, y: number, color: RGB) => {
+    const i = (x + y * size) * 4;
+    image.data[i] = color[0] * 255;
+    image.data[i + 1] = color[1] * 255;
+    image.data[i + 2] = color[2] * 255;
+    image.data[i + 3] = 255;
+  };
+  // Two pixels thick, so diagonals don't fall apart
+  const line = (x0: number, y0: number, x1: number, y1: number, color: RGB) => {
+    const steps = Math.max(1, Math.abs(x1 - x0), Math.abs(y1 - y0));
+    for (let i = 0; i <= steps; i++) {
+      const x = Math.round(x0 + (x1 - x0) * i / steps);
+      const y = Math.round(y0 + (y1 - y0) * i / steps);
+      pixel(x, y, color);
+      if (x + 1 < size) pixel(x + 1, y, scale(color, 0.8));
+    }
+  };
+
+  const color = item?.color ?? [1, 0, 1];
+  switch (item?.tool?.kind) {
+    case 'pickaxe':
+      drawHandle(line, 10, 5);
+      line(4, 3, 8, 1, color);
+      line(8, 1, 12, 3, color);
+      line(12, 3, 14, 7, color);
+      break;
+    case 'axe':
+      drawHandle(line, 11, 4);
+      for (let y = 1; y <= 6; y++) line(7, y, 10 - Math.abs(y - 3), y, color);
+      break;
+    case 'shovel':
+      drawHandle(line, 9, 6);
+      for (let y = 2; y <= 7; y++) line(9 + Math.max(0, 4 - y), y, 12 - Math.max(0, y - 5), y, color);
+      break;
+    case 'sword':
+      drawHandle(line, 4, 11);
+      line(3, 9, 6, 12, scale(color, 0.7)); // Guard
+      line(5, 10, 13, 2, color);
+      break;
+    default:
+      switch (item?.sprite) {
+        case 'ingot':
+          for (let y = 6; y <= 10; y++) line(3 + (10 - y), y, 11 + (10 - y) - 2, y, y === 6 ? scale(color, 1.1) : color);
+          line(4, 11, 10, 11, scale(color, 0.6));
+          break;
+        case 'lump':
+          for (let y = 4; y <= 11; y++) {
+            const half = 4 - Math.abs(y - 7.5) / 2;
+            line(Math.round(7 - half), y, Math.round(8 + half) - 1, y, scale(color, 0.8 + ((y * 7) % 5) / 10));
+          }
+          break;
+        default:
+          line(3, 12, 12, 3, color); // Stick
+      }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,139 @@
+import type { SectionMesh } from './ChunkMesher';
+import type { BlockEdit } from './TerrainGenerator';
+
+// --- Worker Protocol ---
+
+export type WorkerRequest =
+  | { type: 'generate', jobId: number, seed: number, cx: number, cz: number }
+  | { type: 'light', jobId: number, sections: Uint8Array[] }
+  | { type: 'mesh', jobId: number, padded: Uint8Array, paddedLight: Uint8Array, ambientOcclusion: boolean };
+
+export type WorkerResponse =
+  | { type: 'generate', jobId: number, sections: Uint8Array[], light: Uint8Array[], edits: BlockEdit[] }
+  | { type: 'light', jobId: number, light: Uint8Array[] }
+  | { type: 'mesh', jobId: number, mesh: SectionMesh }
+  | { type: 'error', jobId: number, message: string }; // The job threw, goes to onError
+
+export type ChunkJob = {
+  // Jobs with the same key replace each other while still queued
+  key: string;
+  // Lower = dispatched sooner, asked again whenever a job is picked
+  priority: () => number;
+  // Built when a worker picks the job up, so it sees the latest world state
+  createRequest: (jobId: number) => { request: WorkerRequest, transfer: Transferable[] };
+  onDone: (response: WorkerResponse) => void;
+  onCancel?: () => void;
+  // The job failed and gets no response; the caller may schedule it again
+  onError?: (message: string) => void;
+};
+
+// Where World and WorldRenderer send their chunk jobs
+export interface ChunkJobRunner {
+  schedule(job: ChunkJob): void;
+  // Drops queued jobs whose key matches. Jobs already running finish, callers ignore stale results.
+  cancel(predicate: (key: string) => boolean): void;
+  cancelAll(): void;
+}
+
+// Fixed set of chunk workers fed from a queue.
+// The closest job (lowest priority value) is always dispatched first.
+export class WorkerPool implements ChunkJobRunner {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private queue: Map<string, ChunkJob> = new Map();
+  private running: Map<number, ChunkJob> = new Map();
+  private workerJobs: Map<Worker, number> = new Map(); // Job id each busy worker is running
+  private nextJobId = 1;
+
+  constructor(size?: number) {
+    const count = size ?? Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(new URL('./ChunkWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => this.onWorkerMessage(worker, e.data);
+      worker.onerror = (e) => {
+        console.error('Chunk worker error:', e.message);
+        const jobId = this.workerJobs.get(worker);
+        if (jobId !== undefined) this.onWorkerMessage(worker, { type: 'error', jobId, message: e.message });
+      };
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  public get pendingCount(): number {
+    return this.queue.size + this.running.size;
+  }
+
+  public has(key: string): boolean {
+    return this.queue.has(key);
+  }
+
+  public schedule(job: ChunkJob) {
+    const existing = this.queue.get(job.key);
+    if (existing) this.queue.delete(job.key); // Newer request wins, no cancel callback
+    this.queue.set(job.key, job);
+    this.dispatch();
+  }
+
+  public cancel(predicate: (key: string) => boolean) {
+    for (const [key, job] of this.queue) {
+      if (predicate(key)) {
+        this.queue.delete(key);
+        job.onCancel?.();
+      }
+    }
+  }
+
+  public cancelAll() {
+    this.cancel(() => true);
+  }
+
+  private dispatch() {
+    while (this.idleWorkers.length > 0 && this.queue.size > 0) {
+      // Pick the highest priority (closest) job
+      let bestKey = '';
+      let bestPriority = Infinity;
+      for (const [key, job] of this.queue) {
+        const priority = job.priority();
+        if (priority < bestPriority) {
+          bestPriority = priority;
+          bestKey = key;
+        }
+      }
+      if (!bestKey) bestKey = this.queue.keys().next().value!;
+
+      const job = this.queue.get(bestKey)!;
+      this.queue.delete(bestKey);
+
+      const worker = this.idleWorkers.pop()!;
+      const jobId = this.nextJobId++;
+      const { request, transfer } = job.createRequest(jobId);
+      this.running.set(jobId, job);
+      this.workerJobs.set(worker, jobId);
+      worker.postMessage(request, transfer);
+    }
+  }
+
+  private onWorkerMessage(worker: Worker, response: WorkerResponse) {
+    if (this.workerJobs.get(worker) !== response.jobId) return; // Already settled by onerror
+    this.workerJobs.delete(worker);
+    const job = this.running.get(response.jobId);
+    this.running.delete(response.jobId);
+    this.idleWorkers.push(worker);
+
+    if (job) {
+      try {
+        if (response.type === 'error') {
+          console.error('Chunk job failed on a worker:', response.message);
+          job.onError?.(response.message);
+        } else {
+          job.onDone(response);
+        }
+      } catch (e) {
+        console.error('Chunk job failed:', e);
+      }
+    }
+    this.dispatch();
+  }
+}
@@ -0,0 +1,238 @@
+/// <reference types="node" />
+import { afterAll, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as THREE from 'three';
+import { World, CHUNK_SIZE } from './World';
+import { BLOCK, getBlockDef } from './Blocks';
+import { InlineJobRunner } from './InlineJobRunner';
+import { MemoryStorage } from './MemoryStorage';
+import { NodeFileStorage } from './NodeFileStorage';
+import type { WorldStorage } from './WorldStorage';
+
+const SEED = 99;
+const EDIT = { x: 5, y: 200, z: 5 }; // High above the terrain of column 0,0
+const tempDirs: string[] = [];
+
+afterAll(async () => {
+  for (const dir of tempDirs) await fs.rm(dir, { recursive: true, force: true });
+});
+
+const BACKENDS: [string, () => Promise<WorldStorage>][] = [
+  ['MemoryStorage', async () => new MemoryStorage()],
+  ['NodeFileStorage', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'world-test-'));
+    tempDirs.push(dir);
+    return new NodeFileStorage(fs, dir);
+  }]
+];
+
+async function openWorld(storage: WorldStorage) {
+  const jobs = new InlineJobRunner(false);
+  const world = new World(storage, jobs);
+  world.setLoadDistance(2);
+  const loaded = await world.loadWorld('test', SEED);
+  return { world, jobs, loaded };
+}
+
+// Runs update() and the chunk jobs until every column in load range of the block position is in RAM
+async function loadAround(world: World, jobs: InlineJobRunner, x: number, z: number) {
+  const position = new THREE.Vector3(x + 0.5, 100, z + 0.5);
+  const cx = Math.floor(x / CHUNK_SIZE);
+  const cz = Math.floor(z / CHUNK_SIZE);
+  const radius = world.getLoadDistance();
+  const allLoaded = () => {
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        if (!world.isColumnLoaded(cx + dx, cz + dz)) return false;
+      }
+    }
+    return true;
+  };
+
+  for (let i = 0; i < 500 && !allLoaded(); i++) {
+    world.update(position);
+    jobs.runAll();
+    await new Promise(resolve => setTimeout(resolve, 0)); // Storage reads
+  }
+  expect(allLoaded()).toBe(true);
+  return position;
+}
+
+describe.each(BACKENDS)('World with %s', (_, createStorage) => {
+  it('loads what it saved', async () => {
+    const storage = await createStorage();
+    const first = await openWorld(storage);
+    const position = await loadAround(first.world, first.jobs, EDIT.x, EDIT.z);
+    first.world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+    const inventory = [{ id: 1, count: 5 }];
+    await first.world.saveWorld({ position, inventory });
+    first.world.closeWorld();
+
+    const second = await openWorld(storage);
+    expect(second.loaded.playerPosition?.toArray()).toEqual(position.toArray());
+    expect(second.loaded.inventory).toEqual(inventory);
+    await loadAround(second.world, second.jobs, EDIT.x, EDIT.z);
+    expect(second.world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+  });
+
+  it('keeps edits of evicted columns in the journal, reloads them and saves them', async () => {
+    const storage = await createStorage();
+    const { world, jobs } = await openWorld(storage);
+    world['minCachedColumns'] = 0; // Evict once twice the loaded area is in RAM (98 columns)
+    const home = await loadAround(world, jobs, EDIT.x, EDIT.z);
+    await world.saveWorld({ position: home, inventory: [] });
+    world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+
+    let far = home;
+    for (let i = 1; i <= 4; i++) far = await loadAround(world, jobs, i * 10 * CHUNK_SIZE, 0);
+    world['checkMemory'](far);
+    expect(world.isColumnLoaded(0, 0)).toBe(false);
+
+    await loadAround(world, jobs, EDIT.x, EDIT.z);
+    expect(world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+
+    await world.saveWorld({ position: home, inventory: [] });
+    world.closeWorld();
+    const reopened = await openWorld(storage);
+    await loadAround(reopened.world, reopened.jobs, EDIT.x, EDIT.z);
+    expect(reopened.world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+  });
+
+  it('rolls back journaled sections of a session that never saved again', async () => {
+    const storage = await createStorage();
+    const { world, jobs } = await openWorld(storage);
+    world['minCachedColumns'] = 0;
+    const home = await loadAround(world, jobs, EDIT.x, EDIT.z);
+    await world.saveWorld({ position: home, inventory: [] });
+    world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+
+    let far = home;
+    for (let i = 1; i <= 4; i++) far = await loadAround(world, jobs, i * 10 * CHUNK_SIZE, 0);
+    world['checkMemory'](far);
+    expect(world.isColumnLoaded(0, 0)).toBe(false);
+    world.closeWorld(); // "Crash": the journal holds the edit, no save followed
+
+    const reopened = await openWorld(storage);
+    await loadAround(reopened.world, reopened.jobs, EDIT.x, EDIT.z);
+    expect(reopened.world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.AIR);
+  });
+
+  it('reloads a journaled column while a save commits it', async () => {
+    const storage = await createStorage();
+    const { world, jobs } = await openWorld(storage);
+    world['minCachedColumns'] = 0;
+    const home = await loadAround(world, jobs, EDIT.x, EDIT.z);
+    await world.saveWorld({ position: home, inventory: [] });
+    world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+
+    let far = home;
+    for (let i = 1; i <= 4; i++) far = await loadAround(world, jobs, i * 10 * CHUNK_SIZE, 0);
+    world['checkMemory'](far);
+    expect(world.isColumnLoaded(0, 0)).toBe(false);
+
+    // The commit has moved the journal into chunks but not returned yet
+    const save = world['save']!;
+    const commit = save.commit.bind(save);
+    let finishCommit!: () => void;
+    const committing = new Promise<void>(resolve => { finishCommit = resolve; });
+    save.commit = async (writes) => {
+      await commit(writes);
+      await committing;
+    };
+    const saving = world.saveWorld({ position: home, inventory: [] });
+
+    await loadAround(world, jobs, EDIT.x, EDIT.z);
+    expect(world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+    finishCommit();
+    await saving;
+  });
+
+  it('keeps an evicted section whose journal write failed until the next save', async () => {
+    const storage = await createStorage();
+    const { world, jobs } = await openWorld(storage);
+    world['minCachedColumns'] = 0;
+    const home = await loadAround(world, jobs, EDIT.x, EDIT.z);
+    await world.saveWorld({ position: home, inventory: [] });
+    world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+
+    const save = world['save']!;
+    const set = save.set.bind(save);
+    save.set = async (key, value, store) => {
+      if (store === 'journal') throw new Error('Disk full');
+      return set(key, value, store);
+    };
+    let far = home;
+    for (let i = 1; i <= 4; i++) far = await loadAround(world, jobs, i * 10 * CHUNK_SIZE, 0);
+    world['checkMemory'](far);
+    expect(world.isColumnLoaded(0, 0)).toBe(false);
+    save.set = set;
+
+    await loadAround(world, jobs, EDIT.x, EDIT.z);
+    expect(world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+
+    await world.saveWorld({ position: home, inventory: [] });
+    world.closeWorld();
+    const reopened = await openWorld(storage);
+    await loadAround(reopened.world, reopened.jobs, EDIT.x, EDIT.z);
+    expect(reopened.world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+  });
+
+  it('keeps the last snapshot when a commit fails, and saves the edits next time', async () => {
+    const storage = await createStorage();
+    const { world, jobs } = await openWorld(storage);
+    const position = await loadAround(world, jobs, EDIT.x, EDIT.z);
+    await world.saveWorld({ position, inventory: [] });
+
+    world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+    const save = world['save']!;
+    const commit = save.commit.bind(save);
+    save.commit = async () => { throw new Error('Disk full'); };
+    await expect(world.saveWorld({ position, inventory: [] })).rejects.toThrow('Disk full');
+
+    const meanwhile = await openWorld(storage);
+    await loadAround(meanwhile.world, meanwhile.jobs, EDIT.x, EDIT.z);
+    expect(meanwhile.world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.AIR);
+    meanwhile.world.closeWorld();
+
+    save.commit = commit;
+    await world.saveWorld({ position, inventory: [] });
+    world.closeWorld();
+    const reopened = await openWorld(storage);
+    await loadAround(reopened.world, reopened.jobs, EDIT.x, EDIT.z);
+    expect(reopened.world.getBlock(EDIT.x, EDIT.y, EDIT.z)).toBe(BLOCK.PLANKS);
+  });
+
+  it('deletes a world', async () => {
+    const storage = await createStorage();
+    const { world, jobs } = await openWorld(storage);
+    const position = await loadAround(world, jobs, EDIT.x, EDIT.z);
+    world.setBlock(EDIT.x, EDIT.y, EDIT.z, BLOCK.PLANKS);
+    await world.saveWorld({ position, inventory: [] });
+
+    await world.deleteWorld('test');
+    const save = await storage.open('test');
+    expect(await save.keys('chunks')).toEqual([]);
+    expect(await save.get('player', 'meta')).toBeUndefined();
+    save.close();
+  });
+});
+
+describe('World fluids', () => {
+  it('flows fluid at a column border once the column beyond it loads', async () => {
+    const { world, jobs } = await openWorld(new MemoryStorage());
+    await loadAround(world, jobs, EDIT.x, EDIT.z);
+    const radius = world.getLoadDistance();
+    const x = (radius + 1) * CHUNK_SIZE - 1; // Last block before the first unloaded column
+    const runTicks = () => { for (let i = 0; i < 20; i++) world['fluids'].update(50); };
+
+    world.setBlock(x, EDIT.y, EDIT.z, BLOCK.WATER);
+    runTicks();
+    expect(world.getBlock(x, EDIT.y - 1, EDIT.z)).toBe(BLOCK.AIR); // Waits for the neighbor
+
+    await loadAround(world, jobs, EDIT.x + CHUNK_SIZE, EDIT.z);
+    runTicks();
+    expect(getBlockDef(world.getBlock(x, EDIT.y - 1, EDIT.z)).fluid).toBe('water');
+  });
+});
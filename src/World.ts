@@ -1,82 +1,140 @@
 import * as THREE from 'three';
-import { createNoise2D } from 'simplex-noise';
-import { worldDB } from './DB';
-
-// Block IDs
-export const BLOCK = {
-  AIR: 0,
-  GRASS: 1,
-  DIRT: 2,
-  STONE: 3,
-  BEDROCK: 4,
-  WOOD: 5,
-  LEAVES: 6
-};
-
-type Chunk = {
-  mesh: THREE.Mesh;
-  // Visual mesh only, data is stored in chunksData
-};
-
-export class World {
-  private scene: THREE.Scene;
-  private chunkSize: number = 16;
+import type { StorageWrite, WorldSave, WorldStorage } from './WorldStorage';
+import { META_FORMAT_VERSION, encodeSection, readPlayerMeta, readSection } from './SaveFormat';
+
+import { CHUNK_SIZE, WORLD_HEIGHT, SECTIONS_PER_CHUNK } from './WorldConstants';
+import { BLOCK, getBlockDef, isSolid } from './Blocks';
+import type { ChunkJobRunner } from './WorkerPool';
+import { TerrainGenerator, canStructureReplace, type BlockEdit } from './TerrainGenerator';
+import type { Biome } from './Biomes';
+import { LightEngine, type LightWorld } from './Lighting';
+import { FluidSimulator, type FluidWorld } from './Fluids';
+import { getBreakTime } from './Items';
+import { createBlockEntity, readBlockEntity, tickBlockEntity, type BlockEntity } from './BlockEntities';
+
+export { BLOCK, CHUNK_SIZE, WORLD_HEIGHT, SECTIONS_PER_CHUNK };
+
+type CachedSection = { cx: number, cy: number, cz: number, data: Uint8Array, light: Uint8Array | undefined };
+
+// What listeners (the WorldRenderer) hear about. Sections are [cx, cy, cz];
+// immediate changes come from setBlock and should show up in the same frame.
+export type WorldEvent =
+  | { type: 'columnLoaded', cx: number, cz: number }
+  | { type: 'columnUnloaded', cx: number, cz: number }
+  | { type: 'sectionsChanged', sections: [number, number, number][], immediate: boolean }
+  | { type: 'closed' };
+
+// The voxel data layer: columns around the player are loaded from storage or generated, lit,
+// edited and saved. Nothing here draws; WorldRenderer follows the events, and the whole class
+// runs in Node too (MemoryStorage/NodeFileStorage with an InlineJobRunner).
+export class World implements LightWorld, FluidWorld {
+  private chunkSize: number = CHUNK_SIZE;
   
-  // Visuals
-  private chunks: Map<string, Chunk> = new Map();
-  
-  // Data Store
+  // Data Store (keyed by section "cx,cy,cz")
   private chunksData: Map<string, Uint8Array> = new Map();
+  private lightData: Map<string, Uint8Array> = new Map(); // Packed sky/block light, derived (never saved)
+  // Per-block state (furnaces) by section, then block index. Saved in the section's extras.
+  private blockEntities: Map<string, Map<number, BlockEntity>> = new Map();
   private dirtyChunks: Set<string> = new Set();
-  private knownChunkKeys: Set<string> = new Set(); // Keys that exist in DB
-  private loadingChunks: Set<string> = new Set(); // Keys currently being fetched from DB
-
+  private knownChunkKeys: Set<string> = new Set(); // Section keys that exist in DB
+  // Dirty sections evicted from RAM since the last save. They wait in the DB journal (keyed by
+  // write sequence here) until the next save commits them together with the player data.
+  private journaledSections: Map<string, number> = new Map();
+  private journalSequence = 0;
+  // Encoded evicted sections whose journal write is in flight or failed. Loads read them from here,
+  // the next save commits the failed ones.
+  private stagedSections: Map<string, Uint8Array> = new Map();
+  private loadedColumns: Set<string> = new Set(); // Column keys "cx,cz" with all sections in RAM
+  private loadingChunks: Set<string> = new Set(); // Column keys currently being fetched from DB
+  // Failed generate/light jobs by column key. Loading retries until MAX_JOB_FAILURES, then the column stays empty.
+  private columnFailures: Map<string, number> = new Map();
+  private readonly MAX_JOB_FAILURES = 3;
+  // Last sections looked up by world coordinates (most recent first); flood fills,
+  // border seeding and collisions read in runs, often alternating between two sections
+  private cachedSections: CachedSection[] = [];
+
+  // Lighting
+  private lightEngine: LightEngine;
+  private changedSections: Set<string> = new Set(); // Blocks or light changed since the last sectionsChanged event
+
+  // Fluid flow, stepped from update()
+  private fluids: FluidSimulator;
+  private lastUpdateTime = performance.now();
+
+  // Structure blocks (tree leaves etc.) waiting for their column to generate or load, keyed by column
+  private pendingEdits: Map<string, BlockEdit[]> = new Map();
+
+  // Loaded range
+  private loadDistance = 3; // In chunks, around the player's column
+  private minCachedColumns = 500; // Columns kept in RAM before checkMemory evicts any
+  private readonly LOAD_BUDGET_MS = 1; // Main-thread time per frame for starting column loads
+  private viewDirX = 0;
+  private viewDirZ = -1;
+
+  // Off-thread generation & lighting
+  private jobs: ChunkJobRunner;
+  private epoch = 0; // Bumped on reset/reload so late worker results are dropped
+  private playerChunkX = 0;
+  private playerChunkZ = 0;
+
+  private storage: WorldStorage;
+  private save: WorldSave | null = null; // The open world's stores
+  private saveName: string | null = null;
   private seed: number;
-  private noise2D: (x: number, y: number) => number;
-  public noiseTexture: THREE.DataTexture;
-
-  // Terrain Settings
-  private TERRAIN_SCALE = 50;
-  private TERRAIN_HEIGHT = 8;
-  private OFFSET = 4;
+  private generator: TerrainGenerator | null = null; // Main-thread copy for biome queries
+  private listeners: ((event: WorldEvent) => void)[] = [];
 
-  constructor(scene: THREE.Scene) {
-    this.scene = scene;
+  constructor(storage: WorldStorage, jobs: ChunkJobRunner) {
+    this.storage = storage;
+    this.jobs = jobs;
     this.seed = Math.floor(Math.random() * 2147483647);
-    this.noise2D = this.createNoiseGenerator();
-    this.noiseTexture = this.createNoiseTexture();
+    this.lightEngine = new LightEngine(this);
+    this.fluids = new FluidSimulator(this);
+  }
+
+  // Returns the unsubscribe function
+  public subscribe(listener: (event: WorldEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
   }
 
-  private createNoiseGenerator() {
-      // Mulberry32 PRNG
-      let a = this.seed;
-      const random = () => {
-          let t = a += 0x6D2B79F5;
-          t = Math.imul(t ^ t >>> 15, t | 1);
-          t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-          return ((t ^ t >>> 14) >>> 0) / 4294967296;
-      };
-      return createNoise2D(random);
+  private emit(event: WorldEvent) {
+    for (const listener of this.listeners) listener(event);
   }
 
   // --- Persistence Methods ---
 
-  public async loadWorld(): Promise<{ playerPosition?: THREE.Vector3, inventory?: any }> {
-    await worldDB.init();
+  // Opens a world of the storage. A world that was never saved starts with the given seed and no player data.
+  public async loadWorld(name: string, seed: number): Promise<{ playerPosition?: THREE.Vector3, inventory?: any }> {
+    this.closeWorld();
+    const save = await this.storage.open(name);
+    this.save = save;
+    this.saveName = name;
+    this.seed = seed;
+
+    // Recovery: a save is a single transaction, so the stores hold the last complete snapshot.
+    // Sections staged after it belong to a session that never saved again, drop them.
+    const dropped = await save.rollbackJournal();
+    if (dropped > 0) console.warn(`Rolled back ${dropped} sections written after the last save.`);
     
     // Load meta
-    const meta = await worldDB.get('player', 'meta');
+    const stored = await save.get('player', 'meta');
+    const meta = stored ? readPlayerMeta(stored) : undefined;
+    const pending: Record<string, BlockEdit[]> | undefined = await save.get('pendingEdits', 'meta');
+    this.pendingEdits = new Map(pending ? Object.entries(pending) : []);
     
     // Load all chunk keys so we know what to fetch vs generate
-    const keys = await worldDB.keys('chunks');
-    keys.forEach(k => this.knownChunkKeys.add(k as string));
+    // (legacy keys and formats were migrated when the DB opened)
+    const keys = await save.keys('chunks');
+    for (const key of keys) this.knownChunkKeys.add(key);
 
     if (meta && meta.seed !== undefined) {
         this.seed = meta.seed;
         console.log(`Loaded seed: ${this.seed}`);
-        this.noise2D = this.createNoiseGenerator();
     } else {
-        console.log(`No seed found, using current: ${this.seed}`);
+        console.log(`New world, seed: ${this.seed}`);
     }
 
     console.log(`Loaded world index. ${this.knownChunkKeys.size} chunks in DB.`);
@@ -87,69 +145,109 @@ export class World {
     } : {};
   }
 
+  // Writes meta, dirty sections and the journal as one atomic snapshot of the current state
   public async saveWorld(playerData: { position: THREE.Vector3, inventory: any }) {
+    const save = this.save;
+    if (!save) return;
     console.log('Saving world...');
     
-    // Save Meta
-    await worldDB.set('player', {
-        position: { x: playerData.position.x, y: playerData.position.y, z: playerData.position.z },
-        inventory: playerData.inventory,
-        seed: this.seed
-    }, 'meta');
-
-    // Save Dirty Chunks
-    const promises: Promise<void>[] = [];
-    for (const key of this.dirtyChunks) {
+    // Meta
+    const writes: StorageWrite[] = [
+        { store: 'meta', key: 'player', value: {
+            version: META_FORMAT_VERSION,
+            position: { x: playerData.position.x, y: playerData.position.y, z: playerData.position.z },
+            inventory: playerData.inventory,
+            seed: this.seed
+        } },
+        { store: 'meta', key: 'pendingEdits', value: Object.fromEntries(this.pendingEdits) }
+    ];
+
+    // Dirty chunks, encoded now so the snapshot can't mix in later edits
+    const saved = Array.from(this.dirtyChunks);
+    for (const key of saved) {
         const data = this.chunksData.get(key);
-        if (data) {
-            promises.push(worldDB.set(key, data, 'chunks'));
-            this.knownChunkKeys.add(key);
-        }
+        if (data) writes.push({ store: 'chunks', key, value: this.encodeStoredSection(key, data) });
+    }
+    // Evicted sections the journal may not hold (a newer edit in RAM wins)
+    const staged = new Map(this.stagedSections);
+    for (const [key, value] of staged) {
+        if (!this.dirtyChunks.has(key)) writes.push({ store: 'chunks', key, value });
     }
-    
-    await Promise.all(promises);
     this.dirtyChunks.clear();
+    const journalSequence = this.journalSequence;
+
+    try {
+        await save.commit(writes);
+    } catch (e) {
+        // Nothing was written, save these again next time
+        if (this.save === save) {
+            for (const key of saved) {
+                if (this.chunksData.has(key)) this.dirtyChunks.add(key);
+            }
+        }
+        throw e;
+    }
+    if (this.save !== save) return; // Closed meanwhile
+
+    for (const key of saved) this.knownChunkKeys.add(key);
+    for (const [key, value] of staged) {
+        if (this.stagedSections.get(key) === value) this.stagedSections.delete(key);
+    }
+    // Staged sections up to the snapshot are in the chunks store now
+    for (const [key, sequence] of this.journaledSections) {
+        if (sequence <= journalSequence) this.journaledSections.delete(key);
+    }
     console.log('World saved.');
   }
 
-  public async deleteWorld() {
-    console.log('Deleting world...');
-    await worldDB.init();
-    await worldDB.clear();
-    
+  // Closes (if open) and removes a world from the storage
+  public async deleteWorld(name: string) {
+    if (this.saveName === name) this.closeWorld();
+    await this.storage.delete(name);
+  }
+
+  // Drops everything of the open world (unsaved changes included) and closes its stores
+  public closeWorld() {
+    this.save?.close();
+    this.save = null;
+    this.saveName = null;
+
+    this.epoch++;
+    this.jobs.cancelAll();
     this.chunksData.clear();
     this.dirtyChunks.clear();
     this.knownChunkKeys.clear();
+    this.journaledSections.clear();
+    this.stagedSections.clear();
+    this.loadedColumns.clear();
     this.loadingChunks.clear();
-    
-    // Remove all meshes
-    for (const [key, chunk] of this.chunks) {
-        this.scene.remove(chunk.mesh);
-        chunk.mesh.geometry.dispose();
-        (chunk.mesh.material as THREE.Material).dispose();
-    }
-    this.chunks.clear();
-    
-    // Reset seed
-    this.seed = Math.floor(Math.random() * 2147483647);
-    this.noise2D = this.createNoiseGenerator();
-
-    console.log('World deleted.');
+    this.columnFailures.clear();
+    this.pendingEdits.clear();
+    this.lightData.clear();
+    this.blockEntities.clear();
+    this.changedSections.clear();
+    this.cachedSections = [];
+    this.fluids.clear();
+    this.emit({ type: 'closed' });
   }
 
   private checkMemory(playerPos: THREE.Vector3) {
-      if (this.chunksData.size <= 500) return;
+      // Always keep at least twice the visible area in RAM
+      const keepRadius = this.loadDistance + 1;
+      const limit = Math.max(this.minCachedColumns, 2 * (2 * keepRadius + 1) ** 2);
+      if (this.loadedColumns.size <= limit) return;
 
       const cx = Math.floor(playerPos.x / this.chunkSize);
       const cz = Math.floor(playerPos.z / this.chunkSize);
 
-      // Find furthest chunks
-      const entries = Array.from(this.chunksData.entries());
-      entries.sort((a, b) => {
-          const [ak, ] = a;
-          const [bk, ] = b;
-          const [ax, az] = ak.split(',').map(Number);
-          const [bx, bz] = bk.split(',').map(Number);
+      // Find furthest columns (never the visible ones)
+      const columns = Array.from(this.loadedColumns).filter(key => {
+          const [x, z] = key.split(',').map(Number);
+          return !this.isColumnInRange(x, z, keepRadius);
+      });
+      columns.sort((a, b) => {
+          const [ax, az] = a.split(',').map(Number);
+          const [bx, bz] = b.split(',').map(Number);
           
           const distA = (ax - cx) ** 2 + (az - cz) ** 2;
           const distB = (bx - cx) ** 2 + (bz - cz) ** 2;
@@ -157,97 +255,117 @@ export class World {
           return distB - distA; // Descending distance
       });
 
-      // Remove 50 furthest chunks
+      // Remove 50 furthest columns, section by section
       for (let i = 0; i < 50; i++) {
-          if (i >= entries.length) break;
-          const [key, data] = entries[i];
-          
-          // Ensure saved if dirty
-          if (this.dirtyChunks.has(key)) {
-              worldDB.set(key, data, 'chunks').then(() => {
-                  this.knownChunkKeys.add(key);
-              });
-              this.dirtyChunks.delete(key);
-          }
-          
-          this.chunksData.delete(key);
-          
-          // Also remove mesh if exists
-          const chunk = this.chunks.get(key);
-          if (chunk) {
-              this.scene.remove(chunk.mesh);
-              chunk.mesh.geometry.dispose();
-              (chunk.mesh.material as THREE.Material).dispose();
-              this.chunks.delete(key);
+          if (i >= columns.length) break;
+          const [colX, colZ] = columns[i].split(',').map(Number);
+
+          for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+              const key = this.getSectionKey(colX, cy, colZ);
+              const data = this.chunksData.get(key);
+              
+              // Stage if dirty, the next save commits it
+              if (data && this.dirtyChunks.has(key) && this.save) this.stageSection(key, data);
+              
+              this.chunksData.delete(key);
+              this.lightData.delete(key);
+              this.blockEntities.delete(key);
+              this.changedSections.delete(key);
           }
+          this.loadedColumns.delete(columns[i]);
+          this.emit({ type: 'columnUnloaded', cx: colX, cz: colZ });
       }
+      this.cachedSections = [];
       console.log('Memory cleanup performed.');
   }
 
+  // Writes an evicted dirty section to the journal. It stays in stagedSections until the write
+  // lands; if the write fails it stays there for the next save to commit.
+  private stageSection(key: string, data: Uint8Array) {
+      const encoded = this.encodeStoredSection(key, data);
+      this.stagedSections.set(key, encoded);
+      this.journaledSections.set(key, ++this.journalSequence);
+      this.knownChunkKeys.add(key);
+      this.dirtyChunks.delete(key);
+      this.save!.set(key, encoded, 'journal').then(() => {
+          if (this.stagedSections.get(key) === encoded) this.stagedSections.delete(key);
+      }, (e) => {
+          console.error(`Failed to stage section ${key}, keeping it for the next save:`, e);
+      });
+  }
+
   // --- Core Logic ---
 
-  private createNoiseTexture(): THREE.DataTexture {
-    const width = 32;
-    const height = 16;
-    const data = new Uint8Array(width * height * 4); // RGBA
-
-    for (let i = 0; i < width * height; i++) {
-      const stride = i * 4;
-      const x = i % width;
-      
-      const v = Math.floor(Math.random() * (255 - 150) + 150); // 150-255
-      data[stride] = v;     // R
-      data[stride + 1] = v; // G
-      data[stride + 2] = v; // B
-
-      // Alpha logic
-      if (x >= 16) {
-          // Right half: Leaves with transparency
-          // Simple noise for transparency: random dots
-          if (Math.random() < 0.4) {
-             data[stride + 3] = 0;
-          } else {
-             data[stride + 3] = 255;
-          }
-      } else {
-          // Left half: Solid
-          data[stride + 3] = 255;
-      }
-    }
+  public setLoadDistance(distance: number) {
+    this.loadDistance = Math.max(2, Math.min(16, Math.round(distance)));
+  }
 
-    const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat);
-    texture.minFilter = THREE.NearestFilter;
-    texture.magFilter = THREE.NearestFilter;
-    texture.needsUpdate = true;
-    return texture;
+  public getLoadDistance(): number {
+    return this.loadDistance;
   }
 
-  public update(playerPos: THREE.Vector3) {
+  // Chebyshev distance in chunks, so the loaded area is a square like the original 7x7 grid
+  private isColumnInRange(x: number, z: number, radius: number): boolean {
+    return Math.abs(x - this.playerChunkX) <= radius && Math.abs(z - this.playerChunkZ) <= radius;
+  }
+
+  // Lower = sooner (loading, meshing). Distance from the player, with columns behind
+  // the camera counting up to twice as far as the ones in front of it.
+  public getLoadScore(x: number, z: number): number {
+    const dx = x - this.playerChunkX;
+    const dz = z - this.playerChunkZ;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    if (dist === 0) return 0;
+    const facing = (dx * this.viewDirX + dz * this.viewDirZ) / dist; // -1..1
+    return dist * (1.5 - 0.5 * facing);
+  }
+
+  public update(playerPos: THREE.Vector3, viewDir?: THREE.Vector3) {
+    const deadline = performance.now() + this.LOAD_BUDGET_MS;
+
     const cx = Math.floor(playerPos.x / this.chunkSize);
     const cz = Math.floor(playerPos.z / this.chunkSize);
+    this.playerChunkX = cx;
+    this.playerChunkZ = cz;
+
+    if (viewDir) {
+      const len = Math.hypot(viewDir.x, viewDir.z);
+      if (len > 0.001) {
+        this.viewDirX = viewDir.x / len;
+        this.viewDirZ = viewDir.z / len;
+      }
+    }
 
-    const activeChunks = new Set<string>();
+    // Flowing fluids, their sections go out as changed
+    const now = performance.now();
+    this.fluids.update(now - this.lastUpdateTime);
+    this.tickBlockEntities(now - this.lastUpdateTime);
+    this.lastUpdateTime = now;
+    this.flushChangedSections();
+
+    const radius = this.loadDistance;
+    const keepRadius = radius + 1; // Unload one ring later than we load, to avoid thrashing on borders
+
+    // Drop queued generation (column keys) for columns the player has already left
+    this.jobs.cancel(jobKey => {
+      const parts = jobKey.split(',');
+      if (parts.length !== 2) return false;
+      return !this.isColumnInRange(Number(parts[0]), Number(parts[1]), keepRadius);
+    });
 
-    // Generate 7x7 grid (radius 3)
-    for (let x = cx - 3; x <= cx + 3; x++) {
-      for (let z = cz - 3; z <= cz + 3; z++) {
+    // Load missing columns in a spiral: closest first, favoring the view direction
+    const missing: [number, number][] = [];
+    for (let x = cx - radius; x <= cx + radius; x++) {
+      for (let z = cz - radius; z <= cz + radius; z++) {
         const key = `${x},${z}`;
-        activeChunks.add(key);
-
-        if (!this.chunks.has(key)) {
-             this.ensureChunk(x, z, key);
-        }
+        if (!this.loadedColumns.has(key) && (this.columnFailures.get(key) ?? 0) < this.MAX_JOB_FAILURES) missing.push([x, z]);
       }
     }
+    missing.sort((a, b) => this.getLoadScore(a[0], a[1]) - this.getLoadScore(b[0], b[1]));
 
-    // Unload far visuals (not data yet, just mesh to save draw calls)
-    for (const [key, chunk] of this.chunks) {
-      if (!activeChunks.has(key)) {
-        this.scene.remove(chunk.mesh);
-        chunk.mesh.geometry.dispose();
-        (chunk.mesh.material as THREE.Material).dispose();
-        this.chunks.delete(key);
-      }
+    for (const [x, z] of missing) {
+      if (performance.now() >= deadline) break;
+      this.ensureChunk(x, z, `${x},${z}`);
     }
 
     // Memory cleanup occasionally
@@ -258,25 +376,49 @@ export class World {
 
   private async ensureChunk(cx: number, cz: number, key: string) {
       // 1. Check RAM
-      if (this.chunksData.has(key)) {
-          this.buildChunkMesh(cx, cz, this.chunksData.get(key)!);
-          return;
-      }
+      if (this.loadedColumns.has(key)) return;
 
       // 2. Check DB
-      if (this.knownChunkKeys.has(key)) {
+      const storedKeys: string[] = [];
+      for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+          const sectionKey = this.getSectionKey(cx, cy, cz);
+          if (this.knownChunkKeys.has(sectionKey)) storedKeys.push(sectionKey);
+      }
+
+      if (storedKeys.length > 0) {
           if (this.loadingChunks.has(key)) return; // Already loading
           this.loadingChunks.add(key);
           
-          worldDB.get(key, 'chunks').then((data: Uint8Array) => {
-              if (data) {
-                  this.chunksData.set(key, data);
-                  this.buildChunkMesh(cx, cz, data);
-              } else {
+          const epoch = this.epoch;
+          const save = this.save!; // Keys are only known while a world is open
+          Promise.all(storedKeys.map(k => this.readStoredSection(save, k))).then((results: (Uint8Array | undefined)[]) => {
+              if (epoch !== this.epoch) return; // World was reset or reloaded meanwhile
+              this.loadingChunks.delete(key);
+
+              if (results.some(data => !data)) {
                   // Fallback if key existed but data missing?
                   this.generateChunk(cx, cz);
+                  return;
               }
-          }).finally(() => {
+              // Sections that were never saved are empty (all air)
+              const sections: Uint8Array[] = [];
+              const entities: Map<number, BlockEntity>[] = [];
+              try {
+                  for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+                      const index = storedKeys.indexOf(this.getSectionKey(cx, cy, cz));
+                      const record = index !== -1 ? readSection(results[index]!) : { blocks: new Uint8Array(this.chunkSize ** 3) };
+                      sections.push(record.blocks);
+                      entities.push(this.readBlockEntities(record.blocks, record.extras?.blockEntities));
+                  }
+              } catch (e) {
+                  // Corrupt or from a newer game: show generated terrain, the stored data is kept until overwritten
+                  console.error(`Could not read chunk ${key}, generating it instead:`, e);
+                  this.generateChunk(cx, cz);
+                  return;
+              }
+              this.lightStoredColumn(cx, cz, sections, entities);
+          }).catch((e) => {
+              console.error(`Failed to load chunk ${key}:`, e);
               this.loadingChunks.delete(key);
           });
           return;
@@ -286,378 +428,440 @@ export class World {
       this.generateChunk(cx, cz);
   }
 
+  // A save commit moves journal records into chunks while journaledSections still lists them,
+  // so a journal miss reads the committed copy
+  private async readStoredSection(save: WorldSave, key: string): Promise<Uint8Array | undefined> {
+      const staged = this.stagedSections.get(key);
+      if (staged) return staged;
+      if (this.journaledSections.has(key)) {
+          const journaled = await save.get(key, 'journal');
+          if (journaled) return journaled;
+      }
+      return save.get(key, 'chunks');
+  }
+
   public isChunkLoaded(x: number, z: number): boolean {
     const cx = Math.floor(x / this.chunkSize);
     const cz = Math.floor(z / this.chunkSize);
-    const key = `${cx},${cz}`;
-    return this.chunksData.has(key);
+    return this.isColumnLoaded(cx, cz);
   }
 
+  // By column coordinates
+  public isColumnLoaded(cx: number, cz: number): boolean {
+    return this.loadedColumns.has(`${cx},${cz}`);
+  }
+
+  // A loaded section's blocks and light (live arrays, read only), null if not in RAM
+  public getSectionData(cx: number, cy: number, cz: number): { blocks: Uint8Array, light: Uint8Array | undefined } | null {
+    const key = this.getSectionKey(cx, cy, cz);
+    const blocks = this.chunksData.get(key);
+    return blocks ? { blocks, light: this.lightData.get(key) } : null;
+  }
+
+  // Solid block check used for collisions. Water can be walked (and fallen) through.
   public hasBlock(x: number, y: number, z: number): boolean {
+    return isSolid(this.getBlock(x, y, z));
+  }
+
+  // Dominant biome at a world column. Pure function of the seed, works for unloaded columns too.
+  public getBiome(x: number, z: number): Biome {
+    if (!this.generator || this.generator.seed !== this.seed) {
+      this.generator = new TerrainGenerator(this.seed);
+    }
+    return this.generator.getBiome(Math.floor(x), Math.floor(z));
+  }
+
+  // heldId: item in the player's hand, tools speed up the blocks they're made for
+  public getBreakTime(type: number, heldId: number = 0): number {
+    return getBreakTime(type, heldId);
+  }
+
+  public getBlock(x: number, y: number, z: number): number {
+    if (y < 0 || y >= WORLD_HEIGHT) return 0; // AIR
+
     const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
     const cz = Math.floor(z / this.chunkSize);
-    const key = `${cx},${cz}`;
 
-    const data = this.chunksData.get(key);
-    if (!data) return false;
+    const section = this.lookupSection(cx, cy, cz);
+    if (!section) return 0; // AIR
 
-    // Convert to local chunk coordinates
     const localX = x - cx * this.chunkSize;
+    const localY = y - cy * this.chunkSize;
     const localZ = z - cz * this.chunkSize;
-    const localY = y; 
-
-    if (localY < 0 || localY >= this.chunkSize) return false;
 
     const index = this.getBlockIndex(localX, localY, localZ);
-    return data[index] !== BLOCK.AIR;
-  }
-
-  public getBreakTime(type: number): number {
-    switch (type) {
-        case BLOCK.LEAVES: return 1000;
-        case BLOCK.DIRT:
-        case BLOCK.GRASS: return 3000;
-        case BLOCK.WOOD: return 5000;
-        case BLOCK.STONE: return 20000;
-        case BLOCK.BEDROCK: return Infinity;
-        default: return 1000;
-    }
+    return section.data[index];
   }
 
-  public getBlock(x: number, y: number, z: number): number {
+  // Packed light (sky << 4 | block), -1 outside the world or in columns that are not loaded
+  public getLight(x: number, y: number, z: number): number {
+    if (y < 0 || y >= WORLD_HEIGHT) return -1;
+
     const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
     const cz = Math.floor(z / this.chunkSize);
-    const key = `${cx},${cz}`;
 
+    const light = this.lookupSection(cx, cy, cz)?.light;
+    if (!light) return -1;
+    return light[this.getBlockIndex(x - cx * this.chunkSize, y - cy * this.chunkSize, z - cz * this.chunkSize)];
+  }
+
+  // Skylight level 0-15; unloaded columns count as open sky
+  public getSkyLight(x: number, y: number, z: number): number {
+    const packed = this.getLight(x, y, z);
+    return packed < 0 ? 15 : packed >> 4;
+  }
+
+  public setLight(x: number, y: number, z: number, packed: number) {
+    const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
+    const cz = Math.floor(z / this.chunkSize);
+
+    const light = this.lookupSection(cx, cy, cz)?.light;
+    if (!light) return;
+    light[this.getBlockIndex(x - cx * this.chunkSize, y - cy * this.chunkSize, z - cz * this.chunkSize)] = packed;
+    this.changedSections.add(this.getSectionKey(cx, cy, cz));
+  }
+
+  private lookupSection(cx: number, cy: number, cz: number): CachedSection | null {
+    const cache = this.cachedSections;
+    for (let i = 0; i < cache.length; i++) {
+      const cached = cache[i];
+      if (cached.cx === cx && cached.cy === cy && cached.cz === cz) {
+        if (i > 0) {
+          cache[i] = cache[0];
+          cache[0] = cached;
+        }
+        return cached;
+      }
+    }
+
+    const key = this.getSectionKey(cx, cy, cz);
     const data = this.chunksData.get(key);
-    if (!data) return 0; // AIR
+    if (!data) return null;
+    const section = { cx, cy, cz, data, light: this.lightData.get(key) };
+    cache.unshift(section);
+    if (cache.length > 2) cache.pop();
+    return section;
+  }
 
-    const localX = x - cx * this.chunkSize;
-    const localZ = z - cz * this.chunkSize;
-    const localY = y;
+  // Highest non-air block in the column (water counts), or -1 if the column is empty / not loaded
+  public getSurfaceHeight(x: number, z: number): number {
+    for (let y = WORLD_HEIGHT - 1; y >= 0; y--) {
+      if (this.getBlock(x, y, z) !== BLOCK.AIR) return y;
+    }
+    return -1;
+  }
 
-    if (localY < 0 || localY >= this.chunkSize) return 0;
+  // State of a furnace etc. (live object), null for other blocks and unloaded columns
+  public getBlockEntity(x: number, y: number, z: number): BlockEntity | null {
+    if (y < 0 || y >= WORLD_HEIGHT) return null;
+    const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
+    const cz = Math.floor(z / this.chunkSize);
+    const index = this.getBlockIndex(x - cx * this.chunkSize, y - cy * this.chunkSize, z - cz * this.chunkSize);
+    return this.blockEntities.get(this.getSectionKey(cx, cy, cz))?.get(index) ?? null;
+  }
 
-    const index = this.getBlockIndex(localX, localY, localZ);
-    return data[index];
+  // Call after changing a block entity from outside (the furnace UI), so it's saved
+  public markBlockEntityChanged(x: number, y: number, z: number) {
+    const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
+    const cz = Math.floor(z / this.chunkSize);
+    const key = this.getSectionKey(cx, cy, cz);
+    if (this.chunksData.has(key)) this.dirtyChunks.add(key);
   }
 
   public setBlock(x: number, y: number, z: number, type: number) {
+    if (!this.writeBlock(x, y, z, type)) return;
+
+    // The edited section and the neighbors sharing the border, right away
     const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
     const cz = Math.floor(z / this.chunkSize);
-    const key = `${cx},${cz}`;
+    const sections: [number, number, number][] = [[cx, cy, cz], ...this.getBorderSections(x, y, z)];
+    for (const [sx, sy, sz] of sections) this.changedSections.delete(this.getSectionKey(sx, sy, sz));
+    this.emit({ type: 'sectionsChanged', sections, immediate: true });
 
-    const data = this.chunksData.get(key);
-    if (!data) return;
+    // Sections further away whose light changed
+    this.flushChangedSections();
+  }
 
-    const localX = x - cx * this.chunkSize;
-    const localZ = z - cz * this.chunkSize;
-    const localY = y;
+  // Block changes made by the fluid flow: many per tick, so they are remeshed on the workers
+  public setFluidBlock(x: number, y: number, z: number, type: number) {
+    if (!this.writeBlock(x, y, z, type)) return;
+    const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
+    const cz = Math.floor(z / this.chunkSize);
+    this.changedSections.add(this.getSectionKey(cx, cy, cz));
+    for (const [nx, ny, nz] of this.getBorderSections(x, y, z)) {
+      if (ny >= 0 && ny < SECTIONS_PER_CHUNK) this.changedSections.add(this.getSectionKey(nx, ny, nz));
+    }
+  }
 
-    if (localY < 0 || localY >= this.chunkSize) return;
+  // Stores the block, relights around it and lets nearby fluids react. False if the column is not loaded.
+  private writeBlock(x: number, y: number, z: number, type: number): boolean {
+    if (y < 0 || y >= WORLD_HEIGHT) return false;
 
-    const index = this.getBlockIndex(localX, localY, localZ);
+    const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
+    const cz = Math.floor(z / this.chunkSize);
+    const key = this.getSectionKey(cx, cy, cz);
+
+    const data = this.chunksData.get(key);
+    if (!data) return false;
+
+    const index = this.getBlockIndex(x - cx * this.chunkSize, y - cy * this.chunkSize, z - cz * this.chunkSize);
+    if (data[index] !== type) this.replaceBlockEntity(key, index, type);
     data[index] = type;
     this.dirtyChunks.add(key); // Mark for save
+    this.lightEngine.updateBlock(x, y, z);
+    this.fluids.onBlockChanged(x, y, z);
+    return true;
+  }
 
-    // Regenerate mesh
-    const chunk = this.chunks.get(key);
-    if (chunk) {
-        this.scene.remove(chunk.mesh);
-        chunk.mesh.geometry.dispose();
-        (chunk.mesh.material as THREE.Material).dispose();
+  // The old block's entity goes away with it (its contents are the caller's business), the new block gets a fresh one
+  private replaceBlockEntity(sectionKey: string, index: number, type: number) {
+    let entities = this.blockEntities.get(sectionKey);
+    entities?.delete(index);
+    const entity = createBlockEntity(type);
+    if (entity) {
+      if (!entities) {
+        entities = new Map();
+        this.blockEntities.set(sectionKey, entities);
+      }
+      entities.set(index, entity);
     }
-
-    const newMesh = this.generateChunkMesh(data, cx, cz);
-    this.scene.add(newMesh);
-    this.chunks.set(key, { mesh: newMesh });
+    if (entities?.size === 0) this.blockEntities.delete(sectionKey);
   }
 
-  private getBlockIndex(x: number, y: number, z: number): number {
-    return x + y * this.chunkSize + z * this.chunkSize * this.chunkSize;
+  private tickBlockEntities(dt: number) {
+    dt = Math.min(dt, 1000); // Don't catch up after a stall (or the pause menu)
+    for (const [key, entities] of this.blockEntities) {
+      for (const entity of entities.values()) {
+        if (tickBlockEntity(entity, dt)) this.dirtyChunks.add(key);
+      }
+    }
   }
 
-  private placeTree(data: Uint8Array, startX: number, startY: number, startZ: number) {
-    const trunkHeight = Math.floor(Math.random() * 2) + 4; // 4-5 blocks
-
-    // Trunk
-    for (let y = 0; y < trunkHeight; y++) {
-      const currentY = startY + y;
-      if (currentY < this.chunkSize) {
-        const index = this.getBlockIndex(startX, currentY, startZ);
-        data[index] = BLOCK.WOOD;
-      }
+  // Stored entities of a section whose block still matches
+  private readBlockEntities(blocks: Uint8Array, stored: Record<string, unknown> | undefined): Map<number, BlockEntity> {
+    const entities: Map<number, BlockEntity> = new Map();
+    for (const [index, value] of Object.entries(stored ?? {})) {
+      const i = Number(index);
+      const entity = i >= 0 && i < blocks.length ? readBlockEntity(blocks[i], value) : null;
+      if (entity) entities.set(i, entity);
     }
+    return entities;
+  }
 
-    // Leaves (Volumetric)
-    const leavesStart = startY + trunkHeight - 2;
-    const leavesEnd = startY + trunkHeight + 1; // 1 block above trunk top
-    
-    for (let y = leavesStart; y <= leavesEnd; y++) {
-      const dy = y - (startY + trunkHeight - 1); // Distance from top of trunk
-      let radius = 2;
-      if (dy === 2) radius = 1; // Top tip
-      else if (dy === -1) radius = 2; // Bottomest layer
-
-      for (let x = startX - radius; x <= startX + radius; x++) {
-        for (let z = startZ - radius; z <= startZ + radius; z++) {
-          // Corner rounding
-          const dx = x - startX;
-          const dz = z - startZ;
-          if (Math.abs(dx) === radius && Math.abs(dz) === radius) {
-             // Skip corners randomly to make it less square
-             if (Math.random() < 0.4) continue;
-          }
+  private encodeStoredSection(key: string, blocks: Uint8Array): Uint8Array {
+    const entities = this.blockEntities.get(key);
+    if (!entities || entities.size === 0) return encodeSection({ blocks });
+    return encodeSection({ blocks, extras: { blockEntities: Object.fromEntries(entities) } });
+  }
 
-          if (
-            x >= 0 && x < this.chunkSize &&
-            y >= 0 && y < this.chunkSize &&
-            z >= 0 && z < this.chunkSize
-          ) {
-             const index = this.getBlockIndex(x, y, z);
-             // Don't overwrite trunk
-             if (data[index] !== BLOCK.WOOD) {
-               data[index] = BLOCK.LEAVES;
-             }
-          }
+  // Border blocks are visible from the adjacent sections too, and shade (AO)
+  // the faces of edge and corner neighbors as well
+  private getBorderSections(x: number, y: number, z: number): [number, number, number][] {
+    const cx = Math.floor(x / this.chunkSize);
+    const cy = Math.floor(y / this.chunkSize);
+    const cz = Math.floor(z / this.chunkSize);
+    const last = this.chunkSize - 1;
+    const borderOffsets = (local: number) => local === 0 ? [0, -1] : local === last ? [0, 1] : [0];
+
+    const sections: [number, number, number][] = [];
+    for (const dx of borderOffsets(x - cx * this.chunkSize)) {
+      for (const dy of borderOffsets(y - cy * this.chunkSize)) {
+        for (const dz of borderOffsets(z - cz * this.chunkSize)) {
+          if (dx !== 0 || dy !== 0 || dz !== 0) sections.push([cx + dx, cy + dy, cz + dz]);
         }
       }
     }
+    return sections;
+  }
+
+  private getSectionKey(cx: number, cy: number, cz: number): string {
+    return `${cx},${cy},${cz}`;
+  }
+
+  private getBlockIndex(x: number, y: number, z: number): number {
+    return x + y * this.chunkSize + z * this.chunkSize * this.chunkSize;
   }
 
+  // --- Generation (chunk jobs) ---
+  // Job keys are column keys "cx,cz"; the renderer's meshing jobs use section keys "cx,cy,cz".
+
   private generateChunk(cx: number, cz: number) {
     const key = `${cx},${cz}`;
-    const data = new Uint8Array(this.chunkSize * this.chunkSize * this.chunkSize);
-    const startX = cx * this.chunkSize;
-    const startZ = cz * this.chunkSize;
-
-    // 1. Generate Terrain
-    for (let x = 0; x < this.chunkSize; x++) {
-      for (let z = 0; z < this.chunkSize; z++) {
-        const worldX = startX + x;
-        const worldZ = startZ + z;
-
-        const noiseValue = this.noise2D(worldX / this.TERRAIN_SCALE, worldZ / this.TERRAIN_SCALE);
-        let height = Math.floor(noiseValue * this.TERRAIN_HEIGHT) + this.OFFSET;
-        
-        if (height < 1) height = 1;
-        if (height >= this.chunkSize) height = this.chunkSize - 1;
-
-        for (let y = 0; y <= height; y++) {
-          let type = BLOCK.STONE;
-          if (y === 0) type = BLOCK.BEDROCK;
-          else if (y === height) type = BLOCK.GRASS;
-          else if (y >= height - 3) type = BLOCK.DIRT;
-          
-          const index = this.getBlockIndex(x, y, z);
-          data[index] = type;
-        }
-      }
-    }
-
-    // 2. Generate Trees (Second Pass)
-    for (let x = 0; x < this.chunkSize; x++) {
-      for (let z = 0; z < this.chunkSize; z++) {
-         // Boundary check to prevent cut trees
-         if (x < 2 || x >= this.chunkSize - 2 || z < 2 || z >= this.chunkSize - 2) continue;
-
-         // Find surface height
-         let height = -1;
-         for (let y = this.chunkSize - 1; y >= 0; y--) {
-            if (data[this.getBlockIndex(x, y, z)] !== BLOCK.AIR) {
-               height = y;
-               break;
-            }
-         }
-
-         if (height > 0) {
-            const index = this.getBlockIndex(x, height, z);
-            if (data[index] === BLOCK.GRASS) {
-               if (Math.random() < 0.01) {
-                  this.placeTree(data, x, height + 1, z);
-               }
-            }
-         }
-      }
-    }
+    if (this.loadingChunks.has(key)) return; // Already generating
+    this.loadingChunks.add(key);
+    const epoch = this.epoch;
+
+    this.jobs.schedule({
+      key,
+      priority: () => this.getLoadScore(cx, cz),
+      createRequest: (jobId) => ({
+        request: { type: 'generate', jobId, seed: this.seed, cx, cz },
+        transfer: []
+      }),
+      onDone: (response) => {
+        if (epoch !== this.epoch) return; // World was reset or reloaded meanwhile
+        this.loadingChunks.delete(key);
+        if (response.type !== 'generate' || this.loadedColumns.has(key)) return;
+        this.onColumnLoaded(cx, cz, response.sections, response.light, true);
+        this.placeStructureEdits(response.edits);
+      },
+      onCancel: () => this.loadingChunks.delete(key),
+      onError: () => this.onColumnJobFailed(key, epoch)
+    });
+  }
 
-    // Save to Global Store
-    this.chunksData.set(key, data);
-    this.dirtyChunks.add(key); // New chunk = needs save
-
-    // 3. Generate Mesh
-    this.buildChunkMesh(cx, cz, data);
-  }
-
-  private buildChunkMesh(cx: number, cz: number, data: Uint8Array) {
-      const key = `${cx},${cz}`;
-      if (this.chunks.has(key)) return; // Already has mesh
-
-      const mesh = this.generateChunkMesh(data, cx, cz);
-      this.scene.add(mesh);
-      this.chunks.set(key, { mesh });
-  }
-
-  private generateChunkMesh(data: Uint8Array, cx: number, cz: number): THREE.Mesh {
-    const positions: number[] = [];
-    const normals: number[] = [];
-    const uvs: number[] = [];
-    const colors: number[] = [];
-
-    const startX = cx * this.chunkSize;
-    const startZ = cz * this.chunkSize;
-
-    // Helper to add face
-    const addFace = (x: number, y: number, z: number, type: number, side: string) => {
-      // Local block coords
-      const localX = x;
-      const localY = y;
-      const localZ = z;
-      
-      const x0 = localX;
-      const x1 = localX + 1;
-      const y0 = localY;
-      const y1 = localY + 1;
-      const z0 = localZ;
-      const z1 = localZ + 1;
-
-      // Color Logic
-      let r = 0.5, g = 0.5, b = 0.5;
-      if (type === BLOCK.STONE) { r=0.5; g=0.5; b=0.5; }
-      else if (type === BLOCK.BEDROCK) { r=0.13; g=0.13; b=0.13; }
-      else if (type === BLOCK.DIRT) { r=0.54; g=0.27; b=0.07; } // Brown
-      else if (type === BLOCK.GRASS) {
-        if (side === 'top') { r=0.33; g=0.6; b=0.33; } // Green
-        else { r=0.54; g=0.27; b=0.07; } // Dirt side
-      }
-      else if (type === BLOCK.WOOD) { r=0.4; g=0.2; b=0.0; } // Dark Brown
-      else if (type === BLOCK.LEAVES) { r=0.13; g=0.55; b=0.13; } // Forest Green
-
-      // Append data based on side
-      if (side === 'top') {
-        // y+
-        positions.push(x0, y1, z1,  x1, y1, z1,  x0, y1, z0,  x1, y1, z0);
-        normals.push(0,1,0, 0,1,0, 0,1,0, 0,1,0);
-      } else if (side === 'bottom') {
-        // y-
-        positions.push(x0, y0, z0,  x1, y0, z0,  x0, y0, z1,  x1, y0, z1);
-        normals.push(0,-1,0, 0,-1,0, 0,-1,0, 0,-1,0);
-      } else if (side === 'front') {
-        // z+
-        positions.push(x0, y0, z1,  x1, y0, z1,  x0, y1, z1,  x1, y1, z1);
-        normals.push(0,0,1, 0,0,1, 0,0,1, 0,0,1);
-      } else if (side === 'back') {
-        // z-
-        positions.push(x1, y0, z0,  x0, y0, z0,  x1, y1, z0,  x0, y1, z0);
-        normals.push(0,0,-1, 0,0,-1, 0,0,-1, 0,0,-1);
-      } else if (side === 'right') {
-        // x+
-        positions.push(x1, y0, z1,  x1, y0, z0,  x1, y1, z1,  x1, y1, z0);
-        normals.push(1,0,0, 1,0,0, 1,0,0, 1,0,0);
-      } else if (side === 'left') {
-        // x-
-        positions.push(x0, y0, z0,  x0, y0, z1,  x0, y1, z0,  x0, y1, z1);
-        normals.push(-1,0,0, -1,0,0, -1,0,0, -1,0,0);
-      }
+  // Light is derived data: columns read from the DB get theirs computed on a worker
+  private lightStoredColumn(cx: number, cz: number, sections: Uint8Array[], entities: Map<number, BlockEntity>[]) {
+    const key = `${cx},${cz}`;
+    this.loadingChunks.add(key);
+    const epoch = this.epoch;
+
+    this.jobs.schedule({
+      key,
+      priority: () => this.getLoadScore(cx, cz),
+      createRequest: (jobId) => ({
+        // Copies: the block data stays on this thread
+        request: { type: 'light', jobId, sections: sections.map(s => s.slice()) },
+        transfer: []
+      }),
+      onDone: (response) => {
+        if (epoch !== this.epoch) return;
+        this.loadingChunks.delete(key);
+        if (response.type !== 'light' || this.loadedColumns.has(key)) return;
+        this.onColumnLoaded(cx, cz, sections, response.light, false, entities);
+      },
+      onCancel: () => this.loadingChunks.delete(key),
+      onError: () => this.onColumnJobFailed(key, epoch)
+    });
+  }
 
-      // UVs 
-      // Atlas: Left half (0-0.5) is Solid, Right half (0.5-1.0) is Transparent/Leaves
-      // Inset to prevent bleeding
-      const uvInset = 0.001;
-      let u0 = 0 + uvInset;
-      let u1 = 0.5 - uvInset;
-      
-      if (type === BLOCK.LEAVES) {
-          u0 = 0.5 + uvInset;
-          u1 = 1.0 - uvInset;
-      }
+  // The column is free to load again from update(), unless it failed too often
+  private onColumnJobFailed(key: string, epoch: number) {
+    if (epoch !== this.epoch) return;
+    this.loadingChunks.delete(key);
+    const failures = (this.columnFailures.get(key) ?? 0) + 1;
+    this.columnFailures.set(key, failures);
+    if (failures >= this.MAX_JOB_FAILURES) console.error(`Giving up on column ${key} after ${failures} failed jobs.`);
+  }
 
-      uvs.push(u0,0, u1,0, u0,1, u1,1);
+  private onColumnLoaded(cx: number, cz: number, sections: Uint8Array[], light: Uint8Array[], isNew: boolean, entities: Map<number, BlockEntity>[] = []) {
+    const key = `${cx},${cz}`;
 
-      // Colors (4 vertices per face)
-      for(let i=0; i<4; i++) colors.push(r,g,b);
-    };
+    // Save to Global Store
+    for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+      const sectionKey = this.getSectionKey(cx, cy, cz);
+      this.chunksData.set(sectionKey, sections[cy]);
+      this.lightData.set(sectionKey, light[cy]);
+      if (entities[cy]?.size) this.blockEntities.set(sectionKey, entities[cy]);
+      // New section = needs save. Empty sections are never written, a missing key loads as air
+      if (isNew && sections[cy].some(t => t !== BLOCK.AIR)) {
+        this.dirtyChunks.add(sectionKey);
+      }
+    }
+    this.loadedColumns.add(key);
+    this.cachedSections = [];
+
+    // The column was lit on its own, let light flow in and out of the loaded neighbors
+    this.lightEngine.seedColumnBorders(cx, cz);
+
+    // Flows that were still running when the column was saved
+    if (!isNew) this.scheduleFlowingFluids(cx, cz);
+    // Fluids at the neighbors' borders waited for this column before flowing into it
+    this.scheduleBorderFluids(cx, cz);
+
+    // Structures from neighbors that generated while this column was not in RAM
+    const pending = this.pendingEdits.get(key);
+    if (pending) {
+      for (const edit of pending) this.applyStructureEdit(edit);
+      this.pendingEdits.delete(key);
+    }
 
-    // Helper to check transparency
-    const isTransparent = (t: number) => {
-        return t === BLOCK.AIR || t === BLOCK.LEAVES;
-    };
+    this.emit({ type: 'columnLoaded', cx, cz });
+    this.flushChangedSections();
+  }
 
-    // Iterate
-    for (let x = 0; x < this.chunkSize; x++) {
-      for (let y = 0; y < this.chunkSize; y++) {
-        for (let z = 0; z < this.chunkSize; z++) {
-          const index = this.getBlockIndex(x, y, z);
-          const type = data[index];
-          
-          if (type === BLOCK.AIR) continue;
+  private scheduleFlowingFluids(cx: number, cz: number) {
+    for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+      const data = this.chunksData.get(this.getSectionKey(cx, cy, cz))!;
+      for (let i = 0; i < data.length; i++) {
+        if (getBlockDef(data[i]).fluidLevel === 0) continue;
+        const x = i % this.chunkSize;
+        const y = Math.floor(i / this.chunkSize) % this.chunkSize;
+        const z = Math.floor(i / (this.chunkSize * this.chunkSize));
+        this.fluids.schedule(cx * this.chunkSize + x, cy * this.chunkSize + y, cz * this.chunkSize + z);
+      }
+    }
+  }
 
-          // Check neighbors
-          // We draw a face if the neighbor is transparent (Air or Leaves)
-          // Exception: If both are leaves, do we draw? 
-          // Yes, for high quality foliage we usually do.
-          // Or if neighbor is AIR.
-          
-          const checkNeighbor = (nx: number, ny: number, nz: number) => {
-             if (nx < 0 || nx >= this.chunkSize || 
-                 ny < 0 || ny >= this.chunkSize || 
-                 nz < 0 || nz >= this.chunkSize) {
-                 // Boundary of chunk.
-                 // Ideally we check global world block, but for now we assume boundary is transparent (or culled?)
-                 // If we assume transparent, we draw faces at chunk edges.
-                 // This is safer to avoid gaps.
-                 return true; 
-             }
-             const nType = data[this.getBlockIndex(nx, ny, nz)];
-             return isTransparent(nType);
-          };
-
-          // Top
-          if (checkNeighbor(x, y+1, z)) addFace(x, y, z, type, 'top');
-          // Bottom
-          if (checkNeighbor(x, y-1, z)) addFace(x, y, z, type, 'bottom');
-          // Front (z+)
-          if (checkNeighbor(x, y, z+1)) addFace(x, y, z, type, 'front');
-          // Back (z-)
-          if (checkNeighbor(x, y, z-1)) addFace(x, y, z, type, 'back');
-          // Right (x+)
-          if (checkNeighbor(x+1, y, z)) addFace(x, y, z, type, 'right');
-          // Left (x-)
-          if (checkNeighbor(x-1, y, z)) addFace(x, y, z, type, 'left');
+  // Fluid blocks of the loaded neighbors on the faces touching column cx, cz
+  private scheduleBorderFluids(cx: number, cz: number) {
+    const size = this.chunkSize;
+    for (const [dx, dz] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      if (!this.isColumnLoaded(cx + dx, cz + dz)) continue;
+      // World x (or z) of the neighbor's face, the other axis runs along it
+      const face = dx === 1 ? (cx + 1) * size : dx === -1 ? cx * size - 1 : dz === 1 ? (cz + 1) * size : cz * size - 1;
+      for (let y = 0; y < WORLD_HEIGHT; y++) {
+        for (let i = 0; i < size; i++) {
+          if (dx !== 0) this.fluids.schedule(face, y, cz * size + i);
+          else this.fluids.schedule(cx * size + i, y, face);
         }
       }
     }
+  }
 
-    const geometry = new THREE.BufferGeometry();
-    const indices: number[] = [];
-    
-    // Convert quads (4 verts) to triangles (6 indices)
-    const vertCount = positions.length / 3;
-    for (let i = 0; i < vertCount; i += 4) {
-      indices.push(i, i+1, i+2);
-      indices.push(i+2, i+1, i+3);
+  // Structure blocks a freshly generated column spilled over its border.
+  // Loaded neighbors get them right away, the rest wait in pendingEdits.
+  private placeStructureEdits(edits: BlockEdit[]) {
+    for (const edit of edits) {
+      const cx = Math.floor(edit.x / this.chunkSize);
+      const cz = Math.floor(edit.z / this.chunkSize);
+      const columnKey = `${cx},${cz}`;
+
+      if (!this.loadedColumns.has(columnKey)) {
+        let pending = this.pendingEdits.get(columnKey);
+        if (!pending) {
+          pending = [];
+          this.pendingEdits.set(columnKey, pending);
+        }
+        pending.push(edit);
+        continue;
+      }
+      this.applyStructureEdit(edit);
     }
+    this.flushChangedSections();
+  }
 
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-    geometry.setIndex(indices);
-    geometry.computeBoundingSphere(); // Important for culling
-
-    const material = new THREE.MeshStandardMaterial({ 
-      map: this.noiseTexture,
-      vertexColors: true,
-      roughness: 0.8,
-      alphaTest: 0.5,
-      transparent: true // Allows partial transparency if we wanted, but alphaTest handles cutout
-    });
+  // Writes a structure block into a loaded column, relights around it and marks it changed
+  private applyStructureEdit(edit: BlockEdit) {
+    const cx = Math.floor(edit.x / this.chunkSize);
+    const cy = Math.floor(edit.y / this.chunkSize);
+    const cz = Math.floor(edit.z / this.chunkSize);
+    const sectionKey = this.getSectionKey(cx, cy, cz);
+    const data = this.chunksData.get(sectionKey);
+    if (!data) return;
 
-    const mesh = new THREE.Mesh(geometry, material);
-    mesh.position.set(startX, 0, startZ);
-    mesh.castShadow = true;
-    mesh.receiveShadow = true;
-    
-    return mesh;
+    const index = this.getBlockIndex(edit.x - cx * this.chunkSize, edit.y - cy * this.chunkSize, edit.z - cz * this.chunkSize);
+    if (!canStructureReplace(data[index], edit.type)) return;
+
+    data[index] = edit.type;
+    this.dirtyChunks.add(sectionKey);
+    this.changedSections.add(sectionKey);
+    this.lightEngine.updateBlock(edit.x, edit.y, edit.z);
+  }
+
+  // Tells listeners about sections whose blocks or light changed outside of setBlock
+  private flushChangedSections() {
+    if (this.changedSections.size === 0) return;
+    const sections = Array.from(this.changedSections, key => key.split(',').map(Number) as [number, number, number]);
+    this.changedSections.clear();
+    this.emit({ type: 'sectionsChanged', sections, immediate: false });
   }
 }
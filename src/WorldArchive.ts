@@ -0,0 +1,126 @@
+import { META_FORMAT_VERSION, SECTION_FORMAT_VERSION, encodeSection, isCurrentSection, readPlayerMeta, readSection, type PlayerMeta } from './SaveFormat';
+
+// A whole world in one file, for backups and sharing.
+// Layout:
+//   4 bytes  magic "VXWA"
+//   uint32   manifest byte length, then the manifest as UTF-8 JSON
+//   records  one per stored section: uint16 key length, key (UTF-8), uint32 value length, value (SaveFormat bytes)
+// All numbers little-endian.
+
+export const ARCHIVE_FORMAT_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.vxworld';
+
+const MAGIC = [0x56, 0x58, 0x57, 0x41]; // "VXWA"
+const SECTION_KEY = /^-?\d+,-?\d+,-?\d+$/;
+
+export type ArchiveManifest = {
+  format: number;
+  sectionFormat: number;
+  metaFormat: number;
+  name: string;
+  seed: number;
+  createdAt: number;
+  exportedAt: number;
+  thumbnail: string | null;
+  player: PlayerMeta | null; // Null for a world that was never saved
+  meta: Record<string, unknown>; // Other records of the meta store (pending structure edits etc.)
+  sectionCount: number;
+};
+
+export type WorldArchive = {
+  manifest: ArchiveManifest;
+  sections: [string, Uint8Array][];
+};
+
+export function encodeArchive(archive: WorldArchive): Blob {
+  const encoder = new TextEncoder();
+  const manifest = encoder.encode(JSON.stringify(archive.manifest));
+  const parts: BlobPart[] = [new Uint8Array(MAGIC), uint32(manifest.length), manifest];
+
+  for (const [key, value] of archive.sections) {
+    const keyBytes = encoder.encode(key);
+    const header = new DataView(new ArrayBuffer(2));
+    header.setUint16(0, keyBytes.length, true);
+    parts.push(header.buffer, keyBytes, uint32(value.length), value as BlobPart);
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+// Parses and validates an archive. Sections and player data come back in the current formats;
+// throws with a readable message when the file is not a world or is damaged.
+export function decodeArchive(buffer: ArrayBuffer): WorldArchive {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  const need = (length: number) => {
+    if (offset + length > bytes.length) throw new Error('The world file is truncated');
+  };
+
+  need(MAGIC.length + 4);
+  if (MAGIC.some((byte, i) => bytes[i] !== byte)) throw new Error('Not a world file');
+  offset = MAGIC.length;
+
+  const manifestLength = view.getUint32(offset, true);
+  offset += 4;
+  need(manifestLength);
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(decoder.decode(bytes.subarray(offset, offset + manifestLength)));
+  } catch {
+    throw new Error('The world manifest is damaged');
+  }
+  offset += manifestLength;
+  validateManifest(manifest);
+
+  const sections: [string, Uint8Array][] = [];
+  while (offset < bytes.length) {
+    need(2);
+    const keyLength = view.getUint16(offset, true);
+    offset += 2;
+    need(keyLength + 4);
+    const key = decoder.decode(bytes.subarray(offset, offset + keyLength));
+    offset += keyLength;
+    const valueLength = view.getUint32(offset, true);
+    offset += 4;
+    need(valueLength);
+    let value: Uint8Array = bytes.slice(offset, offset + valueLength);
+    offset += valueLength;
+
+    if (!SECTION_KEY.test(key)) throw new Error(`Invalid section key "${key}"`);
+    try {
+      if (!isCurrentSection(value)) value = encodeSection(readSection(value));
+      else readSection(value); // Decodes fully to catch damaged data
+    } catch (e) {
+      throw new Error(`Section ${key} is damaged: ${(e as Error).message}`);
+    }
+    sections.push([key, value]);
+  }
+
+  if (sections.length !== manifest.sectionCount) {
+    throw new Error(`Expected ${manifest.sectionCount} sections, found ${sections.length}`);
+  }
+  if (manifest.player) manifest.player = readPlayerMeta(manifest.player);
+  return { manifest, sections };
+}
+
+function validateManifest(manifest: ArchiveManifest) {
+  if (typeof manifest !== 'object' || manifest === null || !Number.isInteger(manifest.format)) {
+    throw new Error('The world manifest is damaged');
+  }
+  if (manifest.format > ARCHIVE_FORMAT_VERSION) throw new Error('The world was exported by a newer version of the game');
+  if (manifest.sectionFormat > SECTION_FORMAT_VERSION || manifest.metaFormat > META_FORMAT_VERSION) {
+    throw new Error('The world was saved by a newer version of the game');
+  }
+  if (typeof manifest.name !== 'string') throw new Error('The world has no name');
+  if (!Number.isFinite(manifest.seed)) throw new Error('The world has no valid seed');
+  if (!Number.isInteger(manifest.sectionCount) || manifest.sectionCount < 0) throw new Error('The world manifest is damaged');
+  if (typeof manifest.meta !== 'object' || manifest.meta === null) throw new Error('The world manifest is damaged');
+}
+
+function uint32(value: number): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint32(0, value, true);
+  return view.buffer;
+}
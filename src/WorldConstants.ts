@@ -0,0 +1,8 @@
+// Shared by the World and the modules it hands voxel data to (meshing, generation),
+// kept free of THREE/DB imports so those modules stay light.
+
+// Dimensions
+// A chunk is a full-height column, split into cubic sections of CHUNK_SIZE^3
+export const CHUNK_SIZE = 16;
+export const WORLD_HEIGHT = 256;
+export const SECTIONS_PER_CHUNK = WORLD_HEIGHT / CHUNK_SIZE;
@@ -0,0 +1,420 @@
+import * as THREE from 'three';
+import { CHUNK_SIZE, SECTIONS_PER_CHUNK } from './WorldConstants';
+import { BLOCK } from './Blocks';
+import { buildSectionMesh, getPaddedIndex, PADDED_SIZE, type MeshData, type SectionMesh } from './ChunkMesher';
+import type { ChunkJobRunner } from './WorkerPool';
+import { FULL_SKYLIGHT } from './Lighting';
+import { TextureAtlas } from './TextureAtlas';
+import type { World, WorldEvent } from './World';
+
+type Chunk = {
+  mesh: THREE.Mesh;
+  fluidMesh: THREE.Mesh | null; // Translucent pass, only when the section has visible fluid faces
+  // Visual meshes only, data is stored in the World
+};
+
+// Draws a World: keeps a mesh per section of the columns around the player, following the world's
+// chunk events. Edits by the player are remeshed synchronously, everything else on the workers.
+export class WorldRenderer {
+  private scene: THREE.Scene;
+  private world: World;
+  private chunkSize: number = CHUNK_SIZE;
+
+  // Visuals (keyed by section "cx,cy,cz")
+  private chunks: Map<string, Chunk> = new Map();
+  private meshedColumns: Set<string> = new Set(); // Column keys whose sections have been meshed
+
+  // View range
+  private renderDistance = 3; // In chunks, around the player's column
+  private ambientOcclusion = true;
+  private readonly UPLOAD_BUDGET_MS = 3; // Main-thread time per frame for mesh uploads
+  private playerChunkX = 0;
+  private playerChunkZ = 0;
+
+  // Off-thread meshing
+  private jobs: ChunkJobRunner;
+  private meshVersions: Map<string, number> = new Map(); // Latest requested mesh per section
+  private readyMeshes: { key: string, version: number, mesh: SectionMesh, cx: number, cy: number, cz: number }[] = [];
+
+  private daylightUniform = { value: 1 };
+  public noiseTexture: THREE.DataTexture; // Mobs
+  public atlas: TextureAtlas; // Blocks and block items
+  private chunkMaterial: THREE.MeshStandardMaterial;
+  private fluidMaterial: THREE.MeshStandardMaterial;
+
+  constructor(scene: THREE.Scene, world: World, jobs: ChunkJobRunner) {
+    this.scene = scene;
+    this.world = world;
+    this.jobs = jobs;
+    this.noiseTexture = this.createNoiseTexture();
+    this.atlas = new TextureAtlas();
+    this.chunkMaterial = this.createChunkMaterial(false);
+    this.fluidMaterial = this.createChunkMaterial(true);
+    this.world.subscribe((event) => this.onWorldEvent(event));
+  }
+
+  private createNoiseTexture(): THREE.DataTexture {
+    const width = 32;
+    const height = 16;
+    const data = new Uint8Array(width * height * 4); // RGBA
+
+    for (let i = 0; i < width * height; i++) {
+      const stride = i * 4;
+      const x = i % width;
+
+      const v = Math.floor(Math.random() * (255 - 150) + 150); // 150-255
+      data[stride] = v;     // R
+      data[stride + 1] = v; // G
+      data[stride + 2] = v; // B
+
+      // Alpha logic
+      if (x >= 16) {
+          // Right half: Leaves with transparency
+          // Simple noise for transparency: random dots
+          if (Math.random() < 0.4) {
+             data[stride + 3] = 0;
+          } else {
+             data[stride + 3] = 255;
+          }
+      } else {
+          // Left half: Solid
+          data[stride + 3] = 255;
+      }
+    }
+
+    const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat);
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
+  // The world loads the same range
+  public setRenderDistance(distance: number) {
+    this.world.setLoadDistance(distance);
+    this.renderDistance = this.world.getLoadDistance();
+  }
+
+  public getRenderDistance(): number {
+    return this.renderDistance;
+  }
+
+  // Baked into the meshes, so everything on screen is remeshed
+  public setAmbientOcclusion(enabled: boolean) {
+    if (this.ambientOcclusion === enabled) return;
+    this.ambientOcclusion = enabled;
+    for (const key of this.meshedColumns) {
+      const [cx, cz] = key.split(',').map(Number);
+      this.buildColumnMeshes(cx, cz);
+    }
+  }
+
+  // Night (0.2) to noon (1), scales skylight in the chunk shader
+  public setDaylight(daylight: number) {
+    this.daylightUniform.value = daylight;
+  }
+
+  // Chebyshev distance in chunks, same square as the world's loaded area
+  private isColumnInRange(x: number, z: number, radius: number): boolean {
+    return Math.abs(x - this.playerChunkX) <= radius && Math.abs(z - this.playerChunkZ) <= radius;
+  }
+
+  // Call after World.update
+  public update(playerPos: THREE.Vector3) {
+    const deadline = performance.now() + this.UPLOAD_BUDGET_MS;
+
+    const cx = Math.floor(playerPos.x / this.chunkSize);
+    const cz = Math.floor(playerPos.z / this.chunkSize);
+    this.playerChunkX = cx;
+    this.playerChunkZ = cz;
+
+    const radius = this.renderDistance;
+    const keepRadius = radius + 1; // Unload one ring later than we load, to avoid thrashing on borders
+
+    // Unload far visuals (the data stays in the world until memory cleanup)
+    for (const key of this.chunks.keys()) {
+      const [x, , z] = key.split(',').map(Number);
+      if (!this.isColumnInRange(x, z, keepRadius)) {
+        this.removeSectionMesh(key);
+      }
+    }
+    for (const key of this.meshedColumns) {
+      const [x, z] = key.split(',').map(Number);
+      if (!this.isColumnInRange(x, z, keepRadius)) this.meshedColumns.delete(key);
+    }
+
+    // Drop queued meshing (section keys) for columns the player has already left
+    this.jobs.cancel(jobKey => {
+      const parts = jobKey.split(',');
+      if (parts.length !== 3) return false;
+      return !this.isColumnInRange(Number(parts[0]), Number(parts[2]), keepRadius);
+    });
+
+    // Upload finished worker meshes, closest first
+    if (this.readyMeshes.length > 1) {
+      this.readyMeshes.sort((a, b) => this.world.getLoadScore(a.cx, a.cz) - this.world.getLoadScore(b.cx, b.cz));
+    }
+    while (this.readyMeshes.length > 0 && performance.now() < deadline) {
+      const ready = this.readyMeshes.shift()!;
+      if (this.meshVersions.get(ready.key) !== ready.version) continue; // Superseded by a newer mesh
+      if (!this.meshedColumns.has(`${ready.cx},${ready.cz}`)) continue; // Player left meanwhile
+      this.setSectionMesh(ready.key, this.createSectionMeshes(ready.mesh, ready.cx, ready.cy, ready.cz));
+    }
+
+    // Loaded columns that came into range (the player walked back towards them)
+    for (let x = cx - radius; x <= cx + radius; x++) {
+      for (let z = cz - radius; z <= cz + radius; z++) {
+        if (!this.meshedColumns.has(`${x},${z}`) && this.world.isColumnLoaded(x, z)) this.buildColumnMeshes(x, z);
+      }
+    }
+  }
+
+  private onWorldEvent(event: WorldEvent) {
+    switch (event.type) {
+      case 'columnLoaded':
+        // Mesh only if the player is still around
+        if (this.isColumnInRange(event.cx, event.cz, this.renderDistance + 1)) {
+          this.buildColumnMeshes(event.cx, event.cz);
+        }
+        this.remeshNeighborColumns(event.cx, event.cz);
+        break;
+      case 'columnUnloaded':
+        for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) this.removeSectionMesh(`${event.cx},${cy},${event.cz}`);
+        this.meshedColumns.delete(`${event.cx},${event.cz}`);
+        break;
+      case 'sectionsChanged':
+        for (const [cx, cy, cz] of event.sections) {
+          if (cy < 0 || cy >= SECTIONS_PER_CHUNK) continue;
+          if (!this.meshedColumns.has(`${cx},${cz}`)) continue; // Will be meshed when it comes into range
+          // Player edits show up in the same frame, the rest goes to the workers
+          if (event.immediate) this.buildChunkMesh(cx, cy, cz);
+          else this.queueSectionMesh(cx, cy, cz);
+        }
+        break;
+      case 'closed':
+        this.clear();
+        break;
+    }
+  }
+
+  private clear() {
+    this.meshVersions.clear();
+    this.readyMeshes = [];
+    this.meshedColumns.clear();
+    for (const key of Array.from(this.chunks.keys())) {
+        this.removeSectionMesh(key);
+    }
+  }
+
+  private buildColumnMeshes(cx: number, cz: number) {
+      this.meshedColumns.add(`${cx},${cz}`);
+      for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+          this.queueSectionMesh(cx, cy, cz);
+      }
+  }
+
+  // Mesh a section on a worker. The current mesh stays visible until the new one arrives.
+  private queueSectionMesh(cx: number, cy: number, cz: number) {
+      const key = `${cx},${cy},${cz}`;
+      const section = this.world.getSectionData(cx, cy, cz);
+      if (!section) return;
+
+      // Nothing to draw in an all-air section
+      if (!section.blocks.some(t => t !== BLOCK.AIR)) {
+          this.removeSectionMesh(key);
+          return;
+      }
+
+      const version = (this.meshVersions.get(key) ?? 0) + 1;
+      this.meshVersions.set(key, version);
+
+      this.jobs.schedule({
+          key,
+          priority: () => this.world.getLoadScore(cx, cz),
+          createRequest: (jobId) => {
+              // Built at dispatch time so late-loading neighbors are already included
+              const { padded, paddedLight } = this.createPaddedSection(cx, cy, cz);
+              const request = { type: 'mesh' as const, jobId, padded, paddedLight, ambientOcclusion: this.ambientOcclusion };
+              return { request, transfer: [padded.buffer, paddedLight.buffer] };
+          },
+          onDone: (response) => {
+              if (response.type !== 'mesh') return;
+              // Uploaded from update() within the frame budget
+              this.readyMeshes.push({ key, version, mesh: response.mesh, cx, cy, cz });
+          },
+          onCancel: () => this.meshVersions.delete(key)
+      });
+  }
+
+  // Synchronous remesh for block edits, so the change shows up in the same frame
+  private buildChunkMesh(cx: number, cy: number, cz: number) {
+      const key = `${cx},${cy},${cz}`;
+      const section = this.world.getSectionData(cx, cy, cz);
+      if (!section) return;
+
+      // Supersede any queued or in-flight worker mesh of this section
+      this.jobs.cancel(k => k === key);
+      this.meshVersions.set(key, (this.meshVersions.get(key) ?? 0) + 1);
+
+      // Nothing to draw in an all-air section
+      if (!section.blocks.some(t => t !== BLOCK.AIR)) {
+          this.removeSectionMesh(key);
+          return;
+      }
+
+      const { padded, paddedLight } = this.createPaddedSection(cx, cy, cz);
+      const sectionMesh = buildSectionMesh(padded, paddedLight, this.ambientOcclusion);
+      this.setSectionMesh(key, this.createSectionMeshes(sectionMesh, cx, cy, cz));
+  }
+
+  // A newly loaded column can hide faces its neighbors drew against "air"
+  private remeshNeighborColumns(cx: number, cz: number) {
+      const neighbors = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+      for (const [dx, dz] of neighbors) {
+          if (!this.meshedColumns.has(`${cx + dx},${cz + dz}`)) continue;
+          for (let cy = 0; cy < SECTIONS_PER_CHUNK; cy++) {
+              this.queueSectionMesh(cx + dx, cy, cz + dz);
+          }
+      }
+  }
+
+  private setSectionMesh(key: string, chunk: Chunk) {
+      const old = this.chunks.get(key);
+      if (old) this.disposeChunk(old);
+      this.scene.add(chunk.mesh);
+      if (chunk.fluidMesh) this.scene.add(chunk.fluidMesh);
+      this.chunks.set(key, chunk);
+  }
+
+  private removeSectionMesh(key: string) {
+      this.meshVersions.delete(key);
+      const chunk = this.chunks.get(key);
+      if (!chunk) return;
+      this.disposeChunk(chunk);
+      this.chunks.delete(key);
+  }
+
+  private disposeChunk(chunk: Chunk) {
+      this.scene.remove(chunk.mesh);
+      chunk.mesh.geometry.dispose(); // Materials are shared
+      if (chunk.fluidMesh) {
+          this.scene.remove(chunk.fluidMesh);
+          chunk.fluidMesh.geometry.dispose();
+      }
+  }
+
+  // Copy the section plus a one-block shell of its neighbors, blocks and light.
+  // Unloaded neighbors read as sunlit air, so border faces are drawn until
+  // that neighbor loads and triggers a remesh of this section.
+  private createPaddedSection(cx: number, cy: number, cz: number): { padded: Uint8Array, paddedLight: Uint8Array } {
+    const section = this.world.getSectionData(cx, cy, cz);
+    const data = section?.blocks;
+    const light = section?.light;
+    const startX = cx * this.chunkSize;
+    const startY = cy * this.chunkSize;
+    const startZ = cz * this.chunkSize;
+
+    const padded = new Uint8Array(PADDED_SIZE * PADDED_SIZE * PADDED_SIZE);
+    const paddedLight = new Uint8Array(PADDED_SIZE * PADDED_SIZE * PADDED_SIZE);
+    for (let z = -1; z <= this.chunkSize; z++) {
+      for (let y = -1; y <= this.chunkSize; y++) {
+        for (let x = -1; x <= this.chunkSize; x++) {
+          const inside = x >= 0 && x < this.chunkSize && y >= 0 && y < this.chunkSize && z >= 0 && z < this.chunkSize;
+          let type: number;
+          let packedLight: number;
+          if (inside) {
+            const index = x + y * this.chunkSize + z * this.chunkSize * this.chunkSize;
+            type = data ? data[index] : BLOCK.AIR;
+            packedLight = light ? light[index] : FULL_SKYLIGHT;
+          } else if (startY + y < 0) {
+            type = BLOCK.BEDROCK; // Nobody looks at bedrock from below
+            packedLight = 0;
+          } else {
+            type = this.world.getBlock(startX + x, startY + y, startZ + z);
+            packedLight = this.world.getLight(startX + x, startY + y, startZ + z);
+            if (packedLight < 0) packedLight = FULL_SKYLIGHT; // Above the world or not loaded
+          }
+          const index = getPaddedIndex(x, y, z);
+          padded[index] = type;
+          paddedLight[index] = packedLight;
+        }
+      }
+    }
+    return { padded, paddedLight };
+  }
+
+  private createSectionMeshes(sectionMesh: SectionMesh, cx: number, cy: number, cz: number): Chunk {
+    const mesh = this.createSectionMesh(sectionMesh.opaque, this.chunkMaterial, cx, cy, cz);
+    let fluidMesh: THREE.Mesh | null = null;
+    if (sectionMesh.translucent.positions.length > 0) {
+      fluidMesh = this.createSectionMesh(sectionMesh.translucent, this.fluidMaterial, cx, cy, cz);
+      fluidMesh.castShadow = false;
+      fluidMesh.renderOrder = 1; // After every block mesh, which all count as transparent (cutout leaves)
+      (fluidMesh as any).isFluid = true; // Block raycasts look through it
+    }
+    return { mesh, fluidMesh };
+  }
+
+  private createSectionMesh(meshData: MeshData, material: THREE.Material, cx: number, cy: number, cz: number): THREE.Mesh {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(meshData.positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(meshData.normals, 3));
+    geometry.setAttribute('uv', new THREE.BufferAttribute(meshData.uvs, 2));
+    geometry.setAttribute('tile', new THREE.BufferAttribute(meshData.tiles, 1));
+    geometry.setAttribute('color', new THREE.BufferAttribute(meshData.colors, 3));
+    geometry.setAttribute('light', new THREE.BufferAttribute(meshData.light, 2));
+    geometry.setIndex(new THREE.BufferAttribute(meshData.indices, 1));
+    geometry.computeBoundingSphere(); // Important for culling
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(cx * this.chunkSize, cy * this.chunkSize, cz * this.chunkSize);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+
+    return mesh;
+  }
+
+  // Two materials shared by every section mesh: cutout blocks, and translucent fluids
+  // (blended over what is behind them, seen from both sides, drawn after the opaque pass)
+  private createChunkMaterial(translucent: boolean): THREE.MeshStandardMaterial {
+    const material = new THREE.MeshStandardMaterial(translucent ? {
+      vertexColors: true,
+      roughness: 0.3,
+      transparent: true,
+      opacity: 0.75,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    } : {
+      vertexColors: true,
+      roughness: 0.8,
+      alphaTest: 0.5,
+      transparent: true // Allows partial transparency if we wanted, but alphaTest handles cutout
+    });
+
+    // Greedy quads span several blocks and carry UVs in block units.
+    // Each atlas tile is its own texture array layer, so the UVs simply repeat (mipmaps included).
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.daylight = this.daylightUniform;
+      shader.uniforms.blockAtlas = { value: this.atlas.arrayTexture };
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <uv_pars_vertex>', '#include <uv_pars_vertex>\nattribute float tile;\nvarying float vTile;\nvarying vec2 vBlockUv;\nattribute vec2 light;\nvarying vec2 vLight;')
+        .replace('#include <uv_vertex>', '#include <uv_vertex>\nvTile = tile;\nvBlockUv = uv;\nvLight = light;');
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <uv_pars_fragment>', '#include <uv_pars_fragment>\nvarying float vTile;\nvarying vec2 vBlockUv;\nvarying vec2 vLight;\nuniform float daylight;\nuniform sampler2DArray blockAtlas;')
+        .replace('#include <map_fragment>', `
+          diffuseColor *= texture( blockAtlas, vec3( vBlockUv, vTile ) );
+
+          // Voxel light: each level is 80% of the one above. Skylight follows the time of day, block light doesn't.
+          float skyLight = pow( 0.8, 15.0 - vLight.x ) * daylight;
+          float blockLight = pow( 0.8, 15.0 - vLight.y );
+          diffuseColor.rgb *= max( max( skyLight, blockLight ), 0.03 );
+        `)
+        // Block light keeps glowing when the scene lights go down at night
+        .replace('#include <emissivemap_fragment>', `
+          #include <emissivemap_fragment>
+          totalEmissiveRadiance += diffuseColor.rgb * max( blockLight - skyLight, 0.0 ) * 0.5;
+        `);
+    };
+    return material;
+  }
+}
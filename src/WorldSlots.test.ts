@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { WorldSlots } from './WorldSlots';
+import { MemorySlotRegistry, MemoryStorage } from './MemoryStorage';
+
+describe('WorldSlots', () => {
+  it('lists created worlds, most recently played first', async () => {
+    const slots = new WorldSlots(new MemoryStorage(), new MemorySlotRegistry());
+    const a = await slots.create('A', 1);
+    const b = await slots.create('B', 2);
+    await slots.update(a.id, { lastPlayed: b.lastPlayed + 1000 });
+
+    expect((await slots.list()).map(info => info.name)).toEqual(['A', 'B']);
+    expect((await slots.getLatest())?.id).toBe(a.id);
+  });
+
+  it('deletes a world with its data', async () => {
+    const storage = new MemoryStorage();
+    const slots = new WorldSlots(storage, new MemorySlotRegistry());
+    const info = await slots.create('A', 1);
+    const save = await storage.open(info.dbName);
+    await save.set('player', { seed: 1 }, 'meta');
+
+    await slots.delete(info.id);
+    expect(await slots.list()).toEqual([]);
+    expect(storage.has(info.dbName)).toBe(false);
+  });
+
+  it('duplicates a world with its records', async () => {
+    const storage = new MemoryStorage();
+    const slots = new WorldSlots(storage, new MemorySlotRegistry());
+    const info = await slots.create('A', 1);
+    const save = await storage.open(info.dbName);
+    await save.set('0,0,0', new Uint8Array([1, 2]), 'chunks');
+
+    const copy = (await slots.duplicate(info.id))!;
+    expect(copy.name).toBe('A (Copy)');
+    expect(await (await storage.open(copy.dbName)).get('0,0,0', 'chunks')).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it('adopts the legacy save, even without player meta if it has chunks', async () => {
+    const storage = new MemoryStorage();
+    const legacy = await storage.open('minecraft-world');
+    await legacy.set('0,0,0', new Uint8Array([1]), 'chunks');
+
+    const worlds = await new WorldSlots(storage, new MemorySlotRegistry()).list();
+    expect(worlds.map(info => [info.dbName, info.seed])).toEqual([['minecraft-world', 0]]);
+    expect(await (await storage.open('minecraft-world')).get('0,0,0', 'chunks')).toEqual(new Uint8Array([1]));
+  });
+
+  it('deletes an empty legacy save', async () => {
+    const storage = new MemoryStorage();
+    await storage.open('minecraft-world');
+
+    expect(await new WorldSlots(storage, new MemorySlotRegistry()).list()).toEqual([]);
+    expect(storage.has('minecraft-world')).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import type { SlotRegistry, StoreName, WorldStorage } from './WorldStorage';
+import { META_FORMAT_VERSION, SECTION_FORMAT_VERSION, readPlayerMeta } from './SaveFormat';
+import { ARCHIVE_FORMAT_VERSION, decodeArchive, encodeArchive } from './WorldArchive';
+
+// Save slots. Every world is a separate world of the storage ("minecraft-world-<id>", its own database
+// with IndexedDB); the list of worlds with their names, seeds, dates and thumbnails is kept in the registry
+// (a separate database in the game, see SlotRegistry).
+
+export const REGISTRY_DB_NAME = 'minecraft-worlds';
+
+export type WorldInfo = {
+  id: string;
+  name: string;
+  seed: number;
+  dbName: string; // Name of the world in the storage
+  createdAt: number; // ms since epoch
+  lastPlayed: number;
+  thumbnail: string | null; // JPEG data URL of the last saved view
+};
+
+const LEGACY_DB_NAME = 'minecraft-world'; // The single save from before slots existed
+
+export class WorldSlots {
+  private storage: WorldStorage;
+  private registry: SlotRegistry;
+  private ready: Promise<void> | null = null;
+
+  constructor(storage: WorldStorage, registry: SlotRegistry) {
+    this.storage = storage;
+    this.registry = registry;
+  }
+
+  // All worlds, most recently played first
+  public async list(): Promise<WorldInfo[]> {
+    await this.init();
+    const worlds = (await this.registry.entries()).map(([, info]) => info as WorldInfo);
+    return worlds.sort((a, b) => b.lastPlayed - a.lastPlayed);
+  }
+
+  public async getLatest(): Promise<WorldInfo | null> {
+    return (await this.list())[0] ?? null;
+  }
+
+  public async create(name: string, seed: number): Promise<WorldInfo> {
+    await this.init();
+    const id = this.createId();
+    const now = Date.now();
+    const info: WorldInfo = { id, name, seed, dbName: `minecraft-world-${id}`, createdAt: now, lastPlayed: now, thumbnail: null };
+    await this.registry.set(id, info);
+    return info;
+  }
+
+  public async update(id: string, changes: Partial<Omit<WorldInfo, 'id' | 'dbName'>>) {
+    await this.init();
+    const info: WorldInfo | undefined = await this.registry.get(id);
+    if (!info) return;
+    await this.registry.set(id, { ...info, ...changes });
+  }
+
+  public async rename(id: string, name: string) {
+    await this.update(id, { name });
+  }
+
+  // Copies every record of the world into a new slot
+  public async duplicate(id: string): Promise<WorldInfo | null> {
+    await this.init();
+    const source: WorldInfo | undefined = await this.registry.get(id);
+    if (!source) return null;
+
+    const copy = await this.create(`${source.name} (Copy)`, source.seed);
+    const from = await this.storage.open(source.dbName);
+    try {
+      const to = await this.storage.open(copy.dbName);
+      try {
+        for (const store of ['chunks', 'meta'] as StoreName[]) {
+          await to.setAll(await from.entries(store), store);
+        }
+      } finally {
+        to.close();
+      }
+    } catch (e) {
+      await this.delete(copy.id); // Don't leave a half-copied world behind
+      throw e;
+    } finally {
+      from.close();
+    }
+
+    await this.update(copy.id, { thumbnail: source.thumbnail });
+    return { ...copy, thumbnail: source.thumbnail };
+  }
+
+  // The world's chunks and meta in one archive file (see WorldArchive.ts)
+  public async exportWorld(id: string): Promise<Blob> {
+    await this.init();
+    const info: WorldInfo | undefined = await this.registry.get(id);
+    if (!info) throw new Error('World not found');
+
+    const save = await this.storage.open(info.dbName);
+    try {
+      const meta = Object.fromEntries(await save.entries('meta'));
+      const sections = (await save.entries('chunks')) as [string, Uint8Array][];
+      const { player, ...otherMeta } = meta;
+      return encodeArchive({
+        manifest: {
+          format: ARCHIVE_FORMAT_VERSION,
+          sectionFormat: SECTION_FORMAT_VERSION,
+          metaFormat: META_FORMAT_VERSION,
+          name: info.name,
+          seed: info.seed,
+          createdAt: info.createdAt,
+          exportedAt: Date.now(),
+          thumbnail: info.thumbnail,
+          player: player ? readPlayerMeta(player) : null,
+          meta: otherMeta,
+          sectionCount: sections.length
+        },
+        sections
+      });
+    } finally {
+      save.close();
+    }
+  }
+
+  // Validates an exported world and restores it into a new slot
+  public async importWorld(buffer: ArrayBuffer): Promise<WorldInfo> {
+    const { manifest, sections } = decodeArchive(buffer); // Throws before any slot is created
+    const info = await this.create(manifest.name, manifest.seed);
+    try {
+      const save = await this.storage.open(info.dbName);
+      try {
+        await save.setAll(sections, 'chunks');
+        const meta: [string, any][] = Object.entries(manifest.meta);
+        if (manifest.player) meta.push(['player', manifest.player]);
+        await save.setAll(meta, 'meta');
+      } finally {
+        save.close();
+      }
+    } catch (e) {
+      await this.delete(info.id);
+      throw e;
+    }
+
+    const changes = { createdAt: manifest.createdAt ?? info.createdAt, thumbnail: manifest.thumbnail ?? null };
+    await this.update(info.id, changes);
+    return { ...info, ...changes };
+  }
+
+  public async delete(id: string) {
+    await this.init();
+    const info: WorldInfo | undefined = await this.registry.get(id);
+    if (!info) return;
+    await this.storage.delete(info.dbName);
+    await this.registry.delete(id);
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) this.ready = this.open();
+    return this.ready;
+  }
+
+  private async open() {
+    await this.registry.init();
+    if (await this.registry.get('legacyChecked', 'meta')) return;
+
+    // Adopt the save from before slots existed as the first world.
+    // Without player meta (never saved, or the meta got lost) any chunks still make it a world:
+    // it loads with seed 0 and the default spawn.
+    const legacy = await this.storage.open(LEGACY_DB_NAME);
+    const player = await legacy.get('player', 'meta');
+    const chunks = await legacy.keys('chunks');
+    legacy.close();
+    if (player || chunks.length > 0) {
+      const now = Date.now();
+      const info: WorldInfo = {
+        id: 'legacy', name: 'My World', seed: player?.seed ?? 0, dbName: LEGACY_DB_NAME,
+        createdAt: now, lastPlayed: now, thumbnail: null
+      };
+      await this.registry.set(info.id, info);
+    } else {
+      await this.storage.delete(LEGACY_DB_NAME);
+    }
+    await this.registry.set('legacyChecked', true, 'meta');
+  }
+
+  private createId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+  }
+}
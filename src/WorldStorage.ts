@@ -0,0 +1,41 @@
+// Persistence backends. A backend keeps any number of worlds by name; each world has three stores:
+//   chunks   sections in the SaveFormat encoding, keyed "cx,cy,cz"
+//   meta     player data, pending structure edits
+//   journal  dirty sections evicted from RAM, staged until the next save commits them
+// Implementations: IndexedDBStorage (DB.ts, the game), MemoryStorage and NodeFileStorage (tests, tools).
+
+export type StoreName = 'chunks' | 'meta' | 'journal';
+export const STORE_NAMES: StoreName[] = ['chunks', 'meta', 'journal'];
+
+export type StorageWrite = { store: StoreName, key: string, value: any };
+
+// One open world
+export interface WorldSave {
+  get(key: string, store: StoreName): Promise<any>;
+  set(key: string, value: any, store: StoreName): Promise<void>;
+  keys(store: StoreName): Promise<string[]>;
+  entries(store: StoreName): Promise<[string, any][]>;
+  setAll(records: [string, any][], store: StoreName): Promise<void>;
+  // Stores a snapshot completely or not at all: the writes plus every journal record moved into chunks
+  commit(writes: StorageWrite[]): Promise<void>;
+  // Drops the journal (a session that never saved again), returns how many records it held
+  rollbackJournal(): Promise<number>;
+  close(): void;
+}
+
+export interface WorldStorage {
+  open(name: string): Promise<WorldSave>; // Creates the world when it doesn't exist yet
+  delete(name: string): Promise<void>;
+}
+
+// The list of save slots (WorldSlots.ts): WorldInfo records by id in 'worlds', flags in 'meta'.
+// The game keeps it in its own IndexedDB database (a DB), tests use a MemorySlotRegistry.
+export type SlotStoreName = 'worlds' | 'meta';
+
+export interface SlotRegistry {
+  init(): Promise<void>;
+  get(key: string, store?: SlotStoreName): Promise<any>;
+  set(key: string, value: any, store?: SlotStoreName): Promise<void>;
+  delete(key: string, store?: SlotStoreName): Promise<void>;
+  entries(store?: SlotStoreName): Promise<[string, any][]>;
+}
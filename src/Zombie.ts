@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { Mob, MobState } from './Mob';
 import { World } from './World';
+import { MAX_LIGHT } from './Lighting';
 
 export class Zombie extends Mob {
   protected readonly walkSpeed: number = 1.75; 
@@ -22,10 +23,9 @@ export class Zombie extends Mob {
   private leftLeg: THREE.Mesh;
   private rightLeg: THREE.Mesh;
 
-  constructor(world: World, scene: THREE.Scene, x: number, y: number, z: number) {
+  constructor(world: World, scene: THREE.Scene, x: number, y: number, z: number, texture: THREE.Texture) {
       super(world, scene, x, y, z);
       
-      const texture = world.noiseTexture;
       const skinColor = [0.2, 0.6, 0.2]; // Green
       const shirtColor = [0.2, 0.2, 0.8]; // Blue
       const pantsColor = [0.2, 0.2, 0.6]; // Dark Blue
@@ -84,21 +84,12 @@ export class Zombie extends Mob {
     
     // --- Burning Logic ---
     if (isDay && !this.isDead) {
-        // Check if under cover
+        // Burns where the sky shines straight on the head, like spawning goes by light:
+        // caves and anything roofed get less than full skylight
         const x = Math.floor(this.mesh.position.x);
         const z = Math.floor(this.mesh.position.z);
-        const y = Math.floor(this.mesh.position.y + 1.8); // Check from head up
-        
-        let covered = false;
-        // Check 10 blocks up
-        for(let i=0; i<10; i++) {
-            if (this.world.hasBlock(x, y+i, z)) {
-                covered = true;
-                break;
-            }
-        }
-        
-        this.setFire(!covered);
+        const y = Math.floor(this.mesh.position.y + 1.55); // Head
+        this.setFire(this.world.getSkyLight(x, y, z) >= MAX_LIGHT);
     } else {
         this.setFire(false);
     }
@@ -237,16 +228,8 @@ export class Zombie extends Mob {
               // 2. Must be empty space for body (Y and Y+1)
               if (this.world.hasBlock(cx, startY, cz) || this.world.hasBlock(cx, startY + 1, cz)) continue;
               
-              // 3. Must have roof within reasonable height (Y+2 to Y+10)
-              let hasRoof = false;
-              for(let k=2; k<=10; k++) {
-                  if (this.world.hasBlock(cx, startY + k, cz)) {
-                      hasRoof = true;
-                      break;
-                  }
-              }
-              
-              if (hasRoof) {
+              // 3. Must be out of the sun at head height (the same test as burning)
+              if (this.world.getSkyLight(cx, startY + 1, cz) < MAX_LIGHT) {
                   const dist = (x*x + z*z);
                   if (dist < minDist) {
                       minDist = dist;
@@ -1,8 +1,23 @@
 import * as THREE from 'three';
 import { PointerLockControls } from 'three/addons/controls/PointerLockControls.js';
-import { World } from './World';
+import { World, WORLD_HEIGHT, CHUNK_SIZE } from './World';
+import { WorldRenderer } from './WorldRenderer';
+import { WorkerPool } from './WorkerPool';
+import { BLOCK, getBlockDef, isSolid } from './Blocks';
+import { findRecipe } from './Crafting';
+import { SMELT_TIME, findSmeltingRecipe, getFuelTime, type FurnaceState } from './Furnace';
+import { getBlockEntityItems } from './BlockEntities';
+import {
+  canHarvest, canStack, copyStack, damageItem, getAttackDamage, getBlockDrop, getDisplayName, getDurability, getItemDef,
+  getMaxStackSize, getToolStats, readItemStack, type ItemStack
+} from './Items';
+import { FLUID_GRAVITY_SCALE, FLUID_SINK_SPEED, SWIM_UP_SPEED } from './Fluids';
+import { TextureAtlas } from './TextureAtlas';
 import { ItemEntity } from './ItemEntity';
 import { MobManager } from './MobManager';
+import { DB, IndexedDBStorage } from './DB';
+import { REGISTRY_DB_NAME, WorldSlots, type WorldInfo } from './WorldSlots';
+import { ARCHIVE_EXTENSION } from './WorldArchive';
 import './style.css';
 
 const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
@@ -55,6 +70,7 @@ let moveBackward = false;
 let moveLeft = false;
 let moveRight = false;
 let isOnGround = false;
+let isJumpHeld = false; // Space or the jump button, swims up in fluids
 
 const GRAVITY = 20.0;
 const JUMP_HEIGHT = 1.25;
@@ -81,6 +97,7 @@ const onKeyDown = (event: KeyboardEvent) => {
       moveRight = true;
       break;
     case 'Space':
+      isJumpHeld = true;
       if (isOnGround) {
         velocity.y = JUMP_IMPULSE;
         isOnGround = false;
@@ -89,6 +106,9 @@ const onKeyDown = (event: KeyboardEvent) => {
     case 'KeyE':
       if (!isPaused) toggleInventory();
       break;
+    case 'KeyQ':
+      if (!isPaused && !isInventoryOpen && isGameStarted) dropHeldItem(event.ctrlKey);
+      break;
     case 'Escape':
       if (isInventoryOpen) toggleInventory();
       else togglePauseMenu();
@@ -114,6 +134,9 @@ const onKeyUp = (event: KeyboardEvent) => {
     case 'KeyD':
       moveRight = false;
       break;
+    case 'Space':
+      isJumpHeld = false;
+      break;
   }
 };
 
@@ -121,67 +144,64 @@ document.addEventListener('keydown', onKeyDown);
 document.addEventListener('keyup', onKeyUp);
 
 // World Generation
-const world = new World(scene);
+const storage = new IndexedDBStorage();
+const workerPool = new WorkerPool();
+const world = new World(storage, workerPool);
+const worldRenderer = new WorldRenderer(scene, world, workerPool);
 const entities: ItemEntity[] = [];
-const mobManager = new MobManager(world, scene, entities);
+const mobManager = new MobManager(world, scene, entities, worldRenderer.atlas, worldRenderer.noiseTexture);
 
 // Block Data
-const BLOCK_NAMES: Record<number, string> = {
-  1: 'Блок травы',
-  2: 'Земля',
-  3: 'Камень',
-  4: 'Бедрок',
-  5: 'Дерево',
-  6: 'Листва'
-};
-
 // Inventory State
-const inventorySlots = Array.from({ length: 36 }, () => ({ id: 0, count: 0 }));
+const inventorySlots: ItemStack[] = Array.from({ length: 36 }, () => ({ id: 0, count: 0 }));
 let selectedSlot = 0;
 let isInventoryOpen = false;
-let touchStartSlotIndex: number | null = null;
+
+// Crafting State. Slot indices continue after the inventory: the grid (row by row), then the result.
+// The grid is 2×2 in the inventory and 3×3 at a crafting table; its items go back to the inventory on close.
+const CRAFTING_GRID_START = 36;
+const CRAFTING_RESULT_SLOT = CRAFTING_GRID_START + 9;
+const craftingSlots: ItemStack[] = Array.from({ length: 9 }, () => ({ id: 0, count: 0 }));
+let craftingResult: ItemStack = { id: 0, count: 0 };
+let craftingSize = 2;
+
+// Furnace UI: the slots show the furnace block's own state, which keeps smelting after the UI closes
+const FURNACE_INPUT_SLOT = CRAFTING_RESULT_SLOT + 1;
+const FURNACE_FUEL_SLOT = CRAFTING_RESULT_SLOT + 2;
+const FURNACE_OUTPUT_SLOT = CRAFTING_RESULT_SLOT + 3;
+let openFurnace: { x: number, y: number, z: number, state: FurnaceState } | null = null;
 
 // Drag and Drop State
-let draggedItem: { id: number, count: number } | null = null;
+let draggedItem: ItemStack | null = null;
 const dragIcon = document.getElementById('drag-icon')!;
+// Mouse pressed on a slot with a stack on the cursor: a click, or a spread over every slot passed before release
+let slotDrag: { button: number, slots: number[] } | null = null;
+// Finger on a slot: acts on the first move (drag), after LONG_PRESS_MS (split like a right click) or on release (tap)
+let slotTouch: { index: number, acted: boolean, timer: number, x: number, y: number } | null = null;
+const LONG_PRESS_MS = 500;
+const TOUCH_DRAG_THRESHOLD = 10; // px
 
 // UI Elements
 const hotbarContainer = document.getElementById('hotbar')!;
 const inventoryMenu = document.getElementById('inventory-menu')!;
+const inventoryTitle = document.getElementById('inventory-title')!;
 const inventoryGrid = document.getElementById('inventory-grid')!;
+const craftingGrid = document.getElementById('crafting-grid')!;
+const craftingResultContainer = document.getElementById('crafting-result')!;
+const craftingArea = document.getElementById('crafting-area')!;
+const furnaceArea = document.getElementById('furnace-area')!;
+const furnaceFuelFill = document.getElementById('furnace-fuel-fill')!;
+const furnaceProgressFill = document.getElementById('furnace-progress-fill')!;
 const tooltip = document.getElementById('tooltip')!;
 const hotbarLabel = document.getElementById('hotbar-label')!;
 
 let hotbarLabelTimeout: number;
 
-// Generate CSS Noise
-const canvas = document.createElement('canvas');
-canvas.width = 64;
-canvas.height = 64;
-const ctx = canvas.getContext('2d')!;
-for (let i = 0; i < 64 * 64; i++) {
-  const x = i % 64;
-  const y = Math.floor(i / 64);
-  const v = Math.floor(Math.random() * 50 + 200); // Light noise
-  ctx.fillStyle = `rgba(${v},${v},${v},0.5)`; // Semi-transparent
-  ctx.fillRect(x, y, 1, 1);
-}
-document.body.style.setProperty('--noise-url', `url(${canvas.toDataURL()})`);
-
-function getBlockColor(id: number) {
-  if (id === 1) return '#559955';
-  if (id === 2) return '#8B4513';
-  if (id === 3) return '#808080';
-  if (id === 5) return '#654321';
-  if (id === 6) return '#228B22';
-  return '#fff';
-}
-
 function showHotbarLabel(text: string) {
   hotbarLabel.innerText = text;
   hotbarLabel.style.opacity = '1';
   clearTimeout(hotbarLabelTimeout);
-  hotbarLabelTimeout = setTimeout(() => {
+  hotbarLabelTimeout = window.setTimeout(() => {
     hotbarLabel.style.opacity = '0';
   }, 2000);
 }
@@ -201,10 +221,17 @@ function initSlotElement(index: number, isHotbar: boolean) {
   count.innerText = '';
   div.appendChild(count);
 
+  const durability = document.createElement('div');
+  durability.classList.add('slot-durability');
+  durability.appendChild(document.createElement('div'));
+  div.appendChild(durability);
+
   div.addEventListener('mouseenter', () => {
-    const slot = inventorySlots[index];
+    if (slotDrag) addSlotDragTarget(index);
+    const slot = getSlot(index);
     if (isInventoryOpen && slot.id !== 0) {
-      tooltip.innerText = BLOCK_NAMES[slot.id] || 'Блок';
+      const enchantments = (slot.meta?.enchantments ?? []).map(e => `${e.id} ${e.level}`);
+      tooltip.innerText = [getDisplayName(slot), ...enchantments].join('\n');
       tooltip.style.display = 'block';
     }
   });
@@ -223,7 +250,7 @@ function initSlotElement(index: number, isHotbar: boolean) {
   div.addEventListener('mousedown', (e) => {
     e.stopPropagation();
     if (isInventoryOpen) {
-      handleSlotClick(index);
+      onSlotMouseDown(index, e);
     }
   });
   
@@ -232,14 +259,17 @@ function initSlotElement(index: number, isHotbar: boolean) {
     if (e.cancelable) e.preventDefault(); 
 
     if (isInventoryOpen) {
-      touchStartSlotIndex = index;
-      handleSlotClick(index);
-      
       const touch = e.changedTouches[0];
-      if (draggedItem) {
-          dragIcon.style.left = touch.clientX + 'px';
-          dragIcon.style.top = touch.clientY + 'px';
-      }
+      clearTimeout(slotTouch?.timer);
+      const timer = window.setTimeout(() => {
+        if (!slotTouch || slotTouch.acted || !isInventoryOpen) return;
+        slotTouch.acted = true;
+        handleSlotRightClick(slotTouch.index);
+      }, LONG_PRESS_MS);
+      slotTouch = { index, acted: false, timer, x: touch.clientX, y: touch.clientY };
+
+      dragIcon.style.left = touch.clientX + 'px';
+      dragIcon.style.top = touch.clientY + 'px';
       
     } else if (isHotbar) {
       selectedSlot = index;
@@ -250,8 +280,46 @@ function initSlotElement(index: number, isHotbar: boolean) {
   return div;
 }
 
+function getSlot(index: number): ItemStack {
+  if (index >= FURNACE_INPUT_SLOT) {
+    if (!openFurnace) return { id: 0, count: 0 };
+    const { state } = openFurnace;
+    return index === FURNACE_INPUT_SLOT ? state.input : index === FURNACE_FUEL_SLOT ? state.fuel : state.output;
+  }
+  if (index === CRAFTING_RESULT_SLOT) return craftingResult;
+  if (index >= CRAFTING_GRID_START) return craftingSlots[index - CRAFTING_GRID_START];
+  return inventorySlots[index];
+}
+
+// Inventory, crafting grid and furnace slots
+function setSlot(index: number, stack: ItemStack) {
+  if (index >= FURNACE_INPUT_SLOT) {
+    if (!openFurnace) return;
+    if (index === FURNACE_INPUT_SLOT) openFurnace.state.input = stack;
+    else if (index === FURNACE_FUEL_SLOT) openFurnace.state.fuel = stack;
+    else openFurnace.state.output = stack;
+  } else if (index >= CRAFTING_GRID_START) craftingSlots[index - CRAFTING_GRID_START] = stack;
+  else inventorySlots[index] = stack;
+}
+
+// Slots items are only taken from
+function isOutputSlot(index: number): boolean {
+  return index === CRAFTING_RESULT_SLOT || index === FURNACE_OUTPUT_SLOT;
+}
+
+// The fuel slot only takes fuel
+function canPlaceInSlot(index: number, stack: ItemStack): boolean {
+  if (isOutputSlot(index)) return false;
+  return index !== FURNACE_FUEL_SLOT || getFuelTime(stack.id) > 0;
+}
+
+function takeOutput(index: number, toInventory: boolean) {
+  if (index === CRAFTING_RESULT_SLOT) takeCraftingResult(toInventory);
+  else takeFurnaceOutput(toInventory);
+}
+
 function updateSlotVisuals(index: number) {
-  const slot = inventorySlots[index];
+  const slot = getSlot(index);
   const elements = document.querySelectorAll(`.slot[data-index="${index}"]`);
   
   elements.forEach(el => {
@@ -262,15 +330,24 @@ function updateSlotVisuals(index: number) {
 
       const icon = el.querySelector('.block-icon') as HTMLElement;
       const countEl = el.querySelector('.slot-count') as HTMLElement;
+      const durabilityEl = el.querySelector('.slot-durability') as HTMLElement;
+      const tool = getToolStats(slot.id);
 
       if (slot.id !== 0 && slot.count > 0) {
         icon.style.display = 'block';
-        icon.style.backgroundColor = getBlockColor(slot.id);
-        countEl.innerText = slot.count.toString();
+        icon.style.backgroundImage = `url(${worldRenderer.atlas.getItemIcon(slot.id)})`;
+        countEl.innerText = getMaxStackSize(slot.id) > 1 ? slot.count.toString() : '';
       } else {
         icon.style.display = 'none';
         countEl.innerText = '';
       }
+
+      // Worn tools only, green to red
+      const fraction = tool ? getDurability(slot) / tool.durability : 1;
+      durabilityEl.style.display = fraction < 1 ? 'block' : 'none';
+      const fill = durabilityEl.firstElementChild as HTMLElement;
+      fill.style.width = `${Math.round(fraction * 100)}%`;
+      fill.style.backgroundColor = `hsl(${Math.round(fraction * 120)}, 100%, 45%)`;
   });
 }
 
@@ -298,73 +375,363 @@ function initInventoryUI() {
   for (let i = 0; i < 9; i++) {
     inventoryGrid.appendChild(initSlotElement(i, false));
   }
+
+  craftingResultContainer.appendChild(initSlotElement(CRAFTING_RESULT_SLOT, false));
+  initCraftingGrid();
+
+  document.getElementById('furnace-input')!.appendChild(initSlotElement(FURNACE_INPUT_SLOT, false));
+  document.getElementById('furnace-fuel')!.appendChild(initSlotElement(FURNACE_FUEL_SLOT, false));
+  document.getElementById('furnace-output')!.appendChild(initSlotElement(FURNACE_OUTPUT_SLOT, false));
+}
+
+// Only the first size × size crafting slots are shown
+function initCraftingGrid() {
+  craftingGrid.innerHTML = '';
+  craftingGrid.style.gridTemplateColumns = `repeat(${craftingSize}, 1fr)`;
+  for (let i = 0; i < craftingSize * craftingSize; i++) {
+    craftingGrid.appendChild(initSlotElement(CRAFTING_GRID_START + i, false));
+  }
 }
 
 function refreshInventoryUI() {
-    for(let i=0; i<36; i++) {
+    for(let i=0; i<=FURNACE_OUTPUT_SLOT; i++) {
         updateSlotVisuals(i);
     }
+    updateFurnaceBars();
+}
+
+function updateFurnaceBars() {
+  if (!openFurnace) return;
+  const { state } = openFurnace;
+  furnaceFuelFill.style.height = `${state.burnDuration > 0 ? Math.round(state.burnTime / state.burnDuration * 100) : 0}%`;
+  furnaceProgressFill.style.width = `${Math.round(state.progress / SMELT_TIME * 100)}%`;
 }
 
-function toggleInventory() {
+// Crafting table: 3×3 grid, the inventory key: 2×2. With openFurnace set the furnace replaces the grid.
+function toggleInventory(gridSize: number = 2) {
   isInventoryOpen = !isInventoryOpen;
   
   if (isInventoryOpen) {
     controls.unlock();
+    craftingSize = gridSize;
+    inventoryTitle.innerText = openFurnace ? 'Furnace' : gridSize === 3 ? 'Crafting Table' : 'Inventory';
+    craftingArea.style.display = openFurnace ? 'none' : 'flex';
+    furnaceArea.style.display = openFurnace ? 'flex' : 'none';
+    initCraftingGrid();
+    updateCraftingResult();
     inventoryMenu.style.display = 'flex';
     refreshInventoryUI();
   } else {
     // Auto-save on close
-    world.saveWorld({
-        position: controls.object.position,
-        inventory: inventorySlots
-    });
+    if (openFurnace) world.markBlockEntityChanged(openFurnace.x, openFurnace.y, openFurnace.z);
+    openFurnace = null;
+    saveInBackground();
 
     controls.lock();
     inventoryMenu.style.display = 'none';
     tooltip.style.display = 'none';  
     
     if (draggedItem) {
-      for (let i = 0; i < 36; i++) {
-        if (inventorySlots[i].id === 0) {
-          inventorySlots[i] = draggedItem;
-          break;
-        } else if (inventorySlots[i].id === draggedItem.id) {
-            inventorySlots[i].count += draggedItem.count;
-            break;
-        }
-      }
+      returnToInventory(draggedItem);
       draggedItem = null;
       updateDragIcon();
     }
+    for (let i = 0; i < craftingSlots.length; i++) {
+      if (craftingSlots[i].id !== 0) returnToInventory(craftingSlots[i]);
+      craftingSlots[i] = { id: 0, count: 0 };
+    }
+    updateCraftingResult();
+    refreshInventoryUI();
+  }
+}
+
+// Onto matching stacks up to the stack size first, then into empty slots. Returns how many didn't fit.
+function addToInventory(stack: ItemStack): number {
+  return addToSlots(stack, 0, inventorySlots.length);
+}
+
+// Same for the inventory slots from..to-1
+function addToSlots(stack: ItemStack, from: number, to: number): number {
+  const max = getMaxStackSize(stack.id);
+  let left = stack.count;
+  for (let i = from; i < to && left > 0; i++) {
+    const slot = inventorySlots[i];
+    if (slot.id === 0 || !canStack(slot, stack)) continue;
+    const moved = Math.min(left, max - slot.count);
+    if (moved > 0) {
+      slot.count += moved;
+      left -= moved;
+    }
+  }
+  for (let i = from; i < to && left > 0; i++) {
+    if (inventorySlots[i].id !== 0) continue;
+    const moved = Math.min(left, max);
+    inventorySlots[i] = copyStack(stack, moved);
+    left -= moved;
+  }
+  return left;
+}
+
+// How many of the stack's item would fit
+function getInventorySpace(stack: ItemStack): number {
+  const max = getMaxStackSize(stack.id);
+  let space = 0;
+  for (const slot of inventorySlots) {
+    if (slot.id === 0) space += max;
+    else if (canStack(slot, stack)) space += max - slot.count;
+  }
+  return space;
+}
+
+// Items that don't fit are dropped at the player's feet
+function returnToInventory(stack: ItemStack) {
+  const left = addToInventory(stack);
+  if (left === 0) return;
+  const { x, y, z } = controls.object.position;
+  entities.push(new ItemEntity(world, scene, x, y - 1, z, stack.id, worldRenderer.atlas, stack.meta, left));
+}
+
+function updateCraftingResult() {
+  const grid = craftingSlots.slice(0, craftingSize * craftingSize).map(s => s.id);
+  const recipe = findRecipe(grid, craftingSize);
+  craftingResult = recipe ? { ...recipe.result } : { id: 0, count: 0 };
+}
+
+// One of each filled grid cell per craft
+function consumeCraftingIngredients() {
+  for (let i = 0; i < craftingSlots.length; i++) {
+    if (craftingSlots[i].id === 0) continue;
+    craftingSlots[i].count--;
+    if (craftingSlots[i].count <= 0) craftingSlots[i] = { id: 0, count: 0 };
+  }
+  updateCraftingResult();
+}
+
+// Click: the result goes to the cursor (stacking onto a held stack of the same item while it fits).
+// Shift-click: crafts as many times as the ingredients and the inventory space allow.
+function takeCraftingResult(craftAll: boolean) {
+  const id = craftingResult.id;
+  if (id === 0) return;
+
+  if (craftAll) {
+    while (craftingResult.id === id && getInventorySpace(craftingResult) >= craftingResult.count) {
+      addToInventory(craftingResult);
+      consumeCraftingIngredients();
+    }
+  } else if (!draggedItem) {
+    draggedItem = copyStack(craftingResult);
+    consumeCraftingIngredients();
+  } else if (canStack(draggedItem, craftingResult) && draggedItem.count + craftingResult.count <= getMaxStackSize(id)) {
+    draggedItem.count += craftingResult.count;
+    consumeCraftingIngredients();
+  }
+
+  refreshInventoryUI();
+  updateDragIcon();
+}
+
+// Like the crafting result, but the output is already made: all of it or what fits
+function takeFurnaceOutput(toInventory: boolean) {
+  if (!openFurnace) return;
+  const { state } = openFurnace;
+  const output = state.output;
+  if (output.id === 0) return;
+
+  if (toInventory) {
+    const left = addToInventory(output);
+    state.output = left > 0 ? copyStack(output, left) : { id: 0, count: 0 };
+  } else if (!draggedItem) {
+    draggedItem = output;
+    state.output = { id: 0, count: 0 };
+  } else if (canStack(draggedItem, output)) {
+    const moved = Math.min(output.count, getMaxStackSize(output.id) - draggedItem.count);
+    draggedItem.count += moved;
+    output.count -= moved;
+    if (output.count === 0) state.output = { id: 0, count: 0 };
+  }
+
+  refreshInventoryUI();
+  updateDragIcon();
+}
+
+// Mouse: shift-click moves, a double click gathers, and with a stack on the cursor the action waits
+// for the release (spreading it if the mouse passed over more slots)
+function onSlotMouseDown(index: number, e: MouseEvent) {
+  if (e.button !== 0 && e.button !== 2) return;
+
+  if (e.shiftKey && e.button === 0) {
+    if (isOutputSlot(index)) takeOutput(index, true);
+    else quickMove(index);
+  } else if (e.button === 0 && e.detail === 2 && draggedItem) {
+    gatherToCursor();
+  } else if (draggedItem && !isOutputSlot(index)) {
+    slotDrag = { button: e.button, slots: [index] };
+  } else if (e.button === 2) {
+    handleSlotRightClick(index);
+  } else {
+    handleSlotClick(index);
+  }
+}
+
+function addSlotDragTarget(index: number) {
+  if (!slotDrag || !draggedItem || !canPlaceInSlot(index, draggedItem) || slotDrag.slots.includes(index)) return;
+  const slot = getSlot(index);
+  if (slot.id === 0 || canStack(slot, draggedItem)) slotDrag.slots.push(index);
+}
+
+window.addEventListener('mouseup', () => {
+  if (!slotDrag) return;
+  const { button, slots } = slotDrag;
+  slotDrag = null;
+  if (slots.length > 1) spreadCursorStack(slots, button === 2);
+  else if (button === 2) handleSlotRightClick(slots[0]);
+  else handleSlotClick(slots[0]);
+});
+
+// Drag-distribute: the left button splits the cursor stack evenly over the slots, the right button puts one in each
+function spreadCursorStack(indices: number[], onePerSlot: boolean) {
+  const stack = draggedItem;
+  if (!stack) return;
+  const max = getMaxStackSize(stack.id);
+  const share = onePerSlot ? 1 : Math.max(1, Math.floor(stack.count / indices.length));
+
+  for (const index of indices) {
+    if (stack.count === 0) break;
+    if (!canPlaceInSlot(index, stack)) continue;
+    const slot = getSlot(index);
+    const room = slot.id === 0 ? max : canStack(slot, stack) ? max - slot.count : 0;
+    const moved = Math.min(share, room, stack.count);
+    if (moved <= 0) continue;
+    if (slot.id === 0) setSlot(index, copyStack(stack, moved));
+    else slot.count += moved;
+    stack.count -= moved;
+  }
+  if (stack.count === 0) draggedItem = null;
+
+  if (indices.some(i => i >= CRAFTING_GRID_START)) updateCraftingResult();
+  refreshInventoryUI();
+  updateDragIcon();
+}
+
+// Shift-click: hotbar to main inventory and back, crafting grid and furnace to the inventory.
+// With a furnace open, smeltable items and fuel go into it instead. What doesn't fit stays.
+function quickMove(index: number) {
+  const slot = getSlot(index);
+  if (slot.id === 0) return;
+
+  let left: number;
+  if (openFurnace && index < 36 && findSmeltingRecipe(slot.id)) {
+    left = addToSlot(FURNACE_INPUT_SLOT, slot);
+  } else if (openFurnace && index < 36 && getFuelTime(slot.id) > 0) {
+    left = addToSlot(FURNACE_FUEL_SLOT, slot);
+  } else {
+    const [from, to] = index < 9 ? [9, 36] : index < 36 ? [0, 9] : [0, 36];
+    left = addToSlots(slot, from, to);
+  }
+  if (left === 0) setSlot(index, { id: 0, count: 0 });
+  else slot.count = left;
+
+  if (index >= CRAFTING_GRID_START) updateCraftingResult();
+  refreshInventoryUI();
+}
+
+// Into one slot up to the stack size, returns how many didn't fit
+function addToSlot(index: number, stack: ItemStack): number {
+  const slot = getSlot(index);
+  const max = getMaxStackSize(stack.id);
+  if (slot.id === 0) {
+    const moved = Math.min(stack.count, max);
+    setSlot(index, copyStack(stack, moved));
+    return stack.count - moved;
+  }
+  if (!canStack(slot, stack)) return stack.count;
+  const moved = Math.min(stack.count, max - slot.count);
+  slot.count += moved;
+  return stack.count - moved;
+}
+
+// Double click: matching items from the inventory onto the cursor, up to a full stack
+function gatherToCursor() {
+  const stack = draggedItem;
+  if (!stack) return;
+  const max = getMaxStackSize(stack.id);
+
+  for (let i = 0; i < inventorySlots.length && stack.count < max; i++) {
+    const slot = inventorySlots[i];
+    if (slot.id === 0 || !canStack(slot, stack)) continue;
+    const moved = Math.min(slot.count, max - stack.count);
+    stack.count += moved;
+    slot.count -= moved;
+    if (slot.count === 0) inventorySlots[i] = { id: 0, count: 0 };
   }
+
+  refreshInventoryUI();
+  updateDragIcon();
+}
+
+// Right click: an empty cursor takes the larger half of the stack, a held stack puts one item down
+function handleSlotRightClick(index: number) {
+  if (isOutputSlot(index)) {
+    takeOutput(index, false);
+    return;
+  }
+
+  const slot = getSlot(index);
+
+  if (draggedItem && !canPlaceInSlot(index, draggedItem)) return;
+  if (!draggedItem) {
+    if (slot.id === 0) return;
+    const half = Math.ceil(slot.count / 2);
+    draggedItem = copyStack(slot, half);
+    slot.count -= half;
+    if (slot.count === 0) setSlot(index, { id: 0, count: 0 });
+  } else if (slot.id === 0) {
+    setSlot(index, copyStack(draggedItem, 1));
+    draggedItem.count--;
+  } else if (canStack(slot, draggedItem)) {
+    if (slot.count >= getMaxStackSize(slot.id)) return;
+    slot.count++;
+    draggedItem.count--;
+  } else {
+    handleSlotClick(index); // A different item: swap
+    return;
+  }
+  if (draggedItem?.count === 0) draggedItem = null;
+
+  if (index >= CRAFTING_GRID_START) updateCraftingResult();
+  refreshInventoryUI();
+  updateDragIcon();
 }
 
 function handleSlotClick(index: number) {
-  const slot = inventorySlots[index];
+  if (isOutputSlot(index)) {
+    takeOutput(index, false);
+    return;
+  }
+
+  const slot = getSlot(index);
+  if (draggedItem && !canPlaceInSlot(index, draggedItem)) return;
 
   if (!draggedItem) {
     if (slot.id !== 0) {
-      draggedItem = { ...slot };
-      slot.id = 0;
-      slot.count = 0;
+      draggedItem = slot;
+      setSlot(index, { id: 0, count: 0 });
     }
   } else {
-    if (slot.id === 0) {
-      slot.id = draggedItem.id;
-      slot.count = draggedItem.count;
-      draggedItem = null;
-    } else if (slot.id === draggedItem.id) {
-      slot.count += draggedItem.count;
-      draggedItem = null;
+    if (slot.id !== 0 && canStack(slot, draggedItem)) {
+      // Top up the stack, the rest stays on the cursor
+      const moved = Math.min(draggedItem.count, getMaxStackSize(slot.id) - slot.count);
+      slot.count += moved;
+      draggedItem.count -= moved;
+      if (draggedItem.count === 0) draggedItem = null;
     } else {
-      const temp = { ...slot };
-      slot.id = draggedItem.id;
-      slot.count = draggedItem.count;
-      draggedItem = temp;
+      // Into an empty slot, or swap
+      setSlot(index, draggedItem);
+      draggedItem = slot.id !== 0 ? slot : null;
     }
   }
   
+  if (index >= CRAFTING_GRID_START) updateCraftingResult();
   refreshInventoryUI();
   updateDragIcon();
 }
@@ -377,7 +744,7 @@ function updateDragIcon() {
     icon.className = 'block-icon';
     icon.style.width = '32px';
     icon.style.height = '32px';
-    icon.style.backgroundColor = getBlockColor(draggedItem.id);
+    icon.style.backgroundImage = `url(${worldRenderer.atlas.getItemIcon(draggedItem.id)})`;
     
     const count = document.createElement('div');
     count.className = 'slot-count';
@@ -399,28 +766,45 @@ window.addEventListener('mousemove', (e) => {
 });
 
 window.addEventListener('touchmove', (e) => {
-  if (draggedItem && isInventoryOpen) {
-    const touch = e.changedTouches[0];
+  if (!isInventoryOpen) return;
+  const touch = e.changedTouches[0];
+
+  // Dragging off a slot picks its stack up first
+  if (slotTouch && !slotTouch.acted && Math.hypot(touch.clientX - slotTouch.x, touch.clientY - slotTouch.y) > TOUCH_DRAG_THRESHOLD) {
+    slotTouch.acted = true;
+    clearTimeout(slotTouch.timer);
+    handleSlotClick(slotTouch.index);
+  }
+
+  if (draggedItem) {
     dragIcon.style.left = touch.clientX + 'px';
     dragIcon.style.top = touch.clientY + 'px';
   }
 }, { passive: false });
 
 window.addEventListener('touchend', (e) => {
-  if (draggedItem && isInventoryOpen && touchStartSlotIndex !== null) {
-    const touch = e.changedTouches[0];
-    const target = document.elementFromPoint(touch.clientX, touch.clientY);
-    const slotEl = target?.closest('.slot');
-    if (slotEl) {
-      const targetIndex = parseInt(slotEl.getAttribute('data-index') || '-1');
-      if (targetIndex !== -1 && targetIndex !== touchStartSlotIndex) {
-        handleSlotClick(targetIndex);
-      }
-    }
-    touchStartSlotIndex = null;
+  if (!slotTouch || !isInventoryOpen) return;
+  const { index, acted, timer } = slotTouch;
+  slotTouch = null;
+  clearTimeout(timer);
+
+  if (!acted) {
+    handleSlotClick(index); // Tap
+    return;
+  }
+
+  // Release after a drag or a long press: put the cursor stack where the finger is
+  const touch = e.changedTouches[0];
+  const slotEl = document.elementFromPoint(touch.clientX, touch.clientY)?.closest('.slot');
+  const targetIndex = slotEl ? parseInt(slotEl.getAttribute('data-index') || '-1') : -1;
+  if (draggedItem && targetIndex !== -1 && targetIndex !== index && !isOutputSlot(targetIndex)) {
+    handleSlotClick(targetIndex);
   }
 });
 
+// Right clicks split stacks
+inventoryMenu.addEventListener('contextmenu', (e) => e.preventDefault());
+
 initInventoryUI();
 refreshInventoryUI();
 
@@ -428,7 +812,7 @@ function onHotbarChange() {
   refreshInventoryUI();
   const slot = inventorySlots[selectedSlot];
   if (slot && slot.id !== 0) {
-    showHotbarLabel(BLOCK_NAMES[slot.id] || 'Unknown Block');
+    showHotbarLabel(getDisplayName(slot));
   } else {
     hotbarLabel.style.opacity = '0';
   }
@@ -535,7 +919,7 @@ function updateBreaking(time: number) {
 
     // Raycast to check if still looking at same block
     raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
-    const hit = raycaster.intersectObjects(scene.children).find(i => i.object !== cursorMesh && i.object !== crackMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object.parent as any)?.isMob);
+    const hit = raycaster.intersectObjects(scene.children).find(i => i.object !== cursorMesh && i.object !== crackMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object as any).isFluid && !(i.object.parent as any)?.isMob);
     
     let lookingAtSame = false;
     if (hit && hit.distance < 6) {
@@ -557,7 +941,8 @@ function updateBreaking(time: number) {
     }
 
     // Update Progress
-    const duration = world.getBreakTime(currentBreakId);
+    const heldId = inventorySlots[selectedSlot].id;
+    const duration = world.getBreakTime(currentBreakId, heldId);
     const elapsed = time - breakStartTime;
     const progress = Math.min(elapsed / duration, 1.0);
 
@@ -567,12 +952,19 @@ function updateBreaking(time: number) {
         const y = currentBreakBlock.y;
         const z = currentBreakBlock.z;
         
-        // Drop Item
-        if (currentBreakId !== 0) {
-            entities.push(new ItemEntity(world, scene, x, y, z, currentBreakId, world.noiseTexture));
+        // Drop Item (some blocks need the right tool)
+        const drop = getBlockDrop(currentBreakId);
+        if (drop !== null && canHarvest(currentBreakId, heldId)) {
+            entities.push(new ItemEntity(world, scene, x, y, z, drop, worldRenderer.atlas));
+        }
+        // Furnace contents
+        const blockEntity = world.getBlockEntity(x, y, z);
+        for (const stack of blockEntity ? getBlockEntityItems(blockEntity) : []) {
+            entities.push(new ItemEntity(world, scene, x, y, z, stack.id, worldRenderer.atlas, stack.meta, stack.count));
         }
         
         world.setBlock(x, y, z, 0); // AIR
+        wearHeldTool(getToolStats(heldId)?.kind === 'sword' ? 2 : 1);
         
         // Reset
         isBreaking = false;
@@ -590,7 +982,7 @@ function updateBreaking(time: number) {
 
 function startBreaking() {
     raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
-    const hit = raycaster.intersectObjects(scene.children).find(i => i.object !== cursorMesh && i.object !== crackMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object.parent as any)?.isMob);
+    const hit = raycaster.intersectObjects(scene.children).find(i => i.object !== cursorMesh && i.object !== crackMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object as any).isFluid && !(i.object.parent as any)?.isMob);
 
     if (hit && hit.distance < 6) {
       const p = hit.point.clone().add(raycaster.ray.direction.clone().multiplyScalar(0.1));
@@ -599,7 +991,7 @@ function startBreaking() {
       const z = Math.floor(p.z);
       
       const id = world.getBlock(x, y, z);
-      if (id !== 0 && id !== 4) { // Not Air or Bedrock
+      if (getBlockDef(id).hardness !== Infinity) { // Not Air, Bedrock or Water
           isBreaking = true;
           breakStartTime = performance.now();
           currentBreakBlock.set(x, y, z);
@@ -681,15 +1073,15 @@ function respawn() {
   isInvulnerable = false;
   
   // Teleport to spawn
-  controls.object.position.set(8, 20, 8);
-  velocity.set(0, 0, 0);
+  moveToSpawn(8, 8);
   
   console.log("Respawned!");
 }
 
+const DROP_PICKUP_DELAY = 2000; // ms before a thrown item can be picked up again
+
 // Combat Constants
 const ATTACK_RANGE = 2.5;
-const PUNCH_DAMAGE = 1;
 const ATTACK_COOLDOWN = 500;
 let lastPlayerAttackTime = 0;
 
@@ -718,35 +1110,84 @@ function performAttack() {
              obj = obj.parent!;
          }
          if (obj && obj.userData.mob) {
-             obj.userData.mob.takeDamage(PUNCH_DAMAGE, controls.object.position); 
+             const heldId = inventorySlots[selectedSlot].id;
+             obj.userData.mob.takeDamage(getAttackDamage(heldId), controls.object.position); 
+             wearHeldTool(getToolStats(heldId)?.kind === 'sword' ? 1 : 2);
              return; // Don't break blocks if we hit a mob
          }
      }
 }
 
+// Q throws one item of the held stack ahead of the player, Ctrl+Q all of it
+function dropHeldItem(wholeStack: boolean) {
+  const slot = inventorySlots[selectedSlot];
+  if (slot.id === 0) return;
+
+  const count = wholeStack ? slot.count : 1;
+  const direction = new THREE.Vector3();
+  controls.getDirection(direction);
+  const pos = controls.object.position.clone().addScaledVector(direction, 1.5);
+  // ItemEntity centers itself in the "block" it's given
+  const entity = new ItemEntity(world, scene, pos.x - 0.5, pos.y - 0.8, pos.z - 0.5, slot.id, worldRenderer.atlas, slot.meta && structuredClone(slot.meta), count);
+  entity.pickupDelay = DROP_PICKUP_DELAY;
+  entities.push(entity);
+
+  slot.count -= count;
+  if (slot.count === 0) inventorySlots[selectedSlot] = { id: 0, count: 0 };
+  onHotbarChange();
+}
+
+// Tools wear down with use (swords on mobs, the others on blocks wear slower) and break at 0
+function wearHeldTool(amount: number) {
+  const slot = inventorySlots[selectedSlot];
+  if (!getToolStats(slot.id)) return;
+  if (!damageItem(slot, amount)) {
+    inventorySlots[selectedSlot] = { id: 0, count: 0 };
+    onHotbarChange();
+    return;
+  }
+  refreshInventoryUI();
+}
+
 function performInteract() {
   raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
   const intersects = raycaster.intersectObjects(scene.children);
-  const hit = intersects.find(i => i.object !== cursorMesh && i.object !== crackMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object.parent as any)?.isMob);
+  const hit = intersects.find(i => i.object !== cursorMesh && i.object !== crackMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object as any).isFluid && !(i.object.parent as any)?.isMob);
 
   if (hit && hit.distance < 6) {
-      // Place Block
+      // Use a crafting table or furnace
+      if (hit.face) {
+        const p = hit.point.clone().add(hit.face.normal.clone().multiplyScalar(-0.1));
+        const x = Math.floor(p.x);
+        const y = Math.floor(p.y);
+        const z = Math.floor(p.z);
+        if (world.getBlock(x, y, z) === BLOCK.CRAFTING_TABLE) {
+          toggleInventory(3);
+          return;
+        }
+        const blockEntity = world.getBlockEntity(x, y, z);
+        if (blockEntity?.type === 'furnace') {
+          openFurnace = { x, y, z, state: blockEntity };
+          toggleInventory();
+          return;
+        }
+      }
+
+      // Place Block (items like tools can't be placed)
       const slot = inventorySlots[selectedSlot];
-      if (slot.id !== 0 && slot.count > 0) {
+      const block = getItemDef(slot.id)?.block ?? null;
+      if (slot.count > 0 && block !== null) {
         if (hit.face) {
           const p = hit.point.clone().add(hit.face.normal.clone().multiplyScalar(0.1));
           const x = Math.floor(p.x);
           const y = Math.floor(p.y);
           const z = Math.floor(p.z);
           
-          world.setBlock(x, y, z, slot.id);
+          world.setBlock(x, y, z, block);
           
           // Decrement Inventory
           slot.count--;
-          if (slot.count <= 0) {
-            slot.id = 0;
-            slot.count = 0;
-          }
+          if (slot.count <= 0) inventorySlots[selectedSlot] = { id: 0, count: 0 };
           refreshInventoryUI();
         }
       }
@@ -774,6 +1215,24 @@ const playerHalfWidth = 0.3;
 const playerHeight = 1.8;
 const eyeHeight = 1.6;
 
+// Set when the player was moved to a column that may not be loaded yet
+let needsSurfacePlacement = false;
+
+function moveToSpawn(x: number, z: number) {
+  controls.object.position.set(x, WORLD_HEIGHT, z);
+  velocity.set(0, 0, 0);
+  needsSurfacePlacement = true;
+}
+
+// Stand the player on top of the highest block of their current column
+function placeOnSurface() {
+  const px = Math.floor(controls.object.position.x);
+  const pz = Math.floor(controls.object.position.z);
+  const surfaceY = world.getSurfaceHeight(px, pz);
+  controls.object.position.y = surfaceY !== -1 ? surfaceY + 1 + eyeHeight : WORLD_HEIGHT;
+  velocity.set(0, 0, 0);
+}
+
 function checkCollision(position: THREE.Vector3): boolean {
   const minX = Math.floor(position.x - playerHalfWidth);
   const maxX = Math.floor(position.x + playerHalfWidth);
@@ -822,6 +1281,7 @@ function checkCollision(position: THREE.Vector3): boolean {
 
 // Animation Loop
 let prevTime = performance.now();
+const viewDirection = new THREE.Vector3();
 
 function animate() {
   requestAnimationFrame(animate);
@@ -831,12 +1291,20 @@ function animate() {
       return;
   }
 
-  world.update(controls.object.position);
+  controls.getDirection(viewDirection);
+  world.update(controls.object.position, viewDirection);
+  worldRenderer.update(controls.object.position);
+  if (openFurnace) {
+    // It smelts while open
+    for (const index of [FURNACE_INPUT_SLOT, FURNACE_FUEL_SLOT, FURNACE_OUTPUT_SLOT]) updateSlotVisuals(index);
+    updateFurnaceBars();
+  }
   
   const time = performance.now();
   const delta = (time - prevTime) / 1000;
 
-  environment.update(delta, controls.object.position);
+  environment.update(delta, controls.object.position, world.getBiome(controls.object.position.x, controls.object.position.z));
+  worldRenderer.setDaylight(environment.daylight);
   
   updateBreaking(time);
   
@@ -850,30 +1318,20 @@ function animate() {
       continue;
     }
 
-    if (entity.mesh.position.distanceTo(controls.object.position) < 2.5) {
-      // Pickup logic
+    if (entity.canBePickedUp() && entity.mesh.position.distanceTo(controls.object.position) < 2.5) {
+      // Pickup logic: as much of the stack as fits, the rest stays on the ground
       const type = entity.type;
+      const left = addToInventory({ id: type, count: entity.count, ...(entity.meta ? { meta: entity.meta } : {}) });
       
-      // 1. Try to find existing slot with same type
-      let targetSlot = inventorySlots.find(s => s.id === type);
-      
-      // 2. If not found, find first empty slot
-      if (!targetSlot) {
-        targetSlot = inventorySlots.find(s => s.id === 0);
-        if (targetSlot) {
-            targetSlot.id = type;
-            targetSlot.count = 0;
+      if (left < entity.count) {
+        entity.count = left;
+        if (left === 0) {
+          entity.dispose();
+          entities.splice(i, 1);
         }
-      }
-
-      // 3. Add to slot if found
-      if (targetSlot) {
-        targetSlot.count++;
-        entity.dispose();
-        entities.splice(i, 1);
         
-        // Update Hotbar label if picking up to active slot
-        if (targetSlot === inventorySlots[selectedSlot]) {
+        // Update Hotbar label if picking up the held item
+        if (inventorySlots[selectedSlot].id === type) {
             onHotbarChange();
         } else {
             refreshInventoryUI();
@@ -889,7 +1347,7 @@ function animate() {
   if (!isPaused && isGameStarted) {
     raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
     const intersects = raycaster.intersectObjects(scene.children);
-    const hit = intersects.find(i => i.object !== cursorMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object.parent as any)?.isMob);
+    const hit = intersects.find(i => i.object !== cursorMesh && i.object !== controls.object && (i.object as any).isMesh && !(i.object as any).isItem && !(i.object as any).isFluid && !(i.object.parent as any)?.isMob);
 
     if (hit && hit.distance < 6) {
       const p = hit.point.clone().add(raycaster.ray.direction.clone().multiplyScalar(0.1));
@@ -899,7 +1357,7 @@ function animate() {
       
       const id = world.getBlock(x, y, z);
       
-      if (id !== 0) {
+      if (isSolid(id)) { // Air and water are not targetable
           cursorMesh.visible = true;
           cursorMesh.position.set(x + 0.5, y + 0.5, z + 0.5);
       } else {
@@ -921,6 +1379,12 @@ function animate() {
         return; 
     }
 
+    // Spawn height depends on the terrain, known only now that the column is loaded
+    if (needsSurfacePlacement) {
+        placeOnSurface();
+        needsSurfacePlacement = false;
+    }
+
     // Input Vector (Local)
     const inputX = Number(moveRight) - Number(moveLeft);
     const inputZ = Number(moveForward) - Number(moveBackward);
@@ -941,8 +1405,14 @@ function animate() {
     
     if (moveDir.lengthSq() > 0) moveDir.normalize();
 
+    // Block around the player's waist: water and lava slow them down
+    const pos = controls.object.position;
+    const bodyBlock = getBlockDef(world.getBlock(Math.floor(pos.x), Math.floor(pos.y - eyeHeight + 0.4), Math.floor(pos.z)));
+    const inFluid = bodyBlock.fluid !== null;
+    if (bodyBlock.contactDamage > 0) takeDamage(bodyBlock.contactDamage);
+
     // Acceleration & Friction
-    const speed = 50.0; // Acceleration force
+    const speed = inFluid ? 25.0 : 50.0; // Acceleration force
     const friction = 10.0; // Friction factor
 
     if (moveForward || moveBackward || moveLeft || moveRight) {
@@ -952,13 +1422,24 @@ function animate() {
 
     velocity.x -= velocity.x * friction * delta;
     velocity.z -= velocity.z * friction * delta;
-    velocity.y -= GRAVITY * delta;
+
+    if (inFluid) {
+        // Swimming: slow sinking, jump held swims up
+        velocity.y -= GRAVITY * FLUID_GRAVITY_SCALE * delta;
+        if (isJumpHeld) velocity.y = SWIM_UP_SPEED;
+        velocity.y = Math.max(velocity.y, -FLUID_SINK_SPEED);
+    } else {
+        velocity.y -= GRAVITY * delta;
+    }
+
+    let hitWall = false;
 
     // Apply & Collide X
     controls.object.position.x += velocity.x * delta;
     if (checkCollision(controls.object.position)) {
         controls.object.position.x -= velocity.x * delta;
         velocity.x = 0;
+        hitWall = true;
     }
 
     // Apply & Collide Z
@@ -966,8 +1447,12 @@ function animate() {
     if (checkCollision(controls.object.position)) {
         controls.object.position.z -= velocity.z * delta;
         velocity.z = 0;
+        hitWall = true;
     }
 
+    // Swimming against a bank: hop out onto it
+    if (inFluid && isJumpHeld && hitWall) velocity.y = JUMP_IMPULSE;
+
     // Apply & Collide Y
     controls.object.position.y += velocity.y * delta;
     
@@ -988,10 +1473,10 @@ function animate() {
       }
     }
     
-    // Fallback for falling out of world
+    // Fallback for falling out of world (below bedrock at y=0)
     if (controls.object.position.y < -50) {
-        controls.object.position.set(8, 20, 20);
-        velocity.set(0, 0, 0);
+        // Put the player back on top of the (loaded) column they fell through
+        placeOnSurface();
     }
   }
 
@@ -1197,6 +1682,7 @@ if (isMobile) {
 
     e.preventDefault();
 
+    isJumpHeld = true;
     if (isOnGround) {
 
         velocity.y = JUMP_IMPULSE;
@@ -1207,6 +1693,12 @@ if (isMobile) {
 
   });
 
+  document.getElementById('btn-jump')!.addEventListener('touchend', () => {
+
+    isJumpHeld = false;
+
+  });
+
 
 
     document.getElementById('btn-attack')!.addEventListener('touchstart', (e) => {
@@ -1443,9 +1935,11 @@ let previousMenu: HTMLElement | null = null; // To know where to go back to
 const mainMenu = document.getElementById('main-menu')!;
 const pauseMenu = document.getElementById('pause-menu')!;
 const settingsMenu = document.getElementById('settings-menu')!;
+const worldsMenu = document.getElementById('worlds-menu')!;
+const createWorldMenu = document.getElementById('create-world-menu')!;
 
-const btnNewGame = document.getElementById('btn-new-game')!;
-const btnContinue = document.getElementById('btn-continue')!;
+const btnWorlds = document.getElementById('btn-worlds')!;
+const btnContinue = document.getElementById('btn-continue') as HTMLButtonElement;
 const btnResume = document.getElementById('btn-resume')!;
 const btnExit = document.getElementById('btn-exit')!;
 
@@ -1454,6 +1948,10 @@ const btnSettingsPause = document.getElementById('btn-settings-pause')!;
 const btnBackSettings = document.getElementById('btn-back-settings')!;
 const cbShadows = document.getElementById('cb-shadows') as HTMLInputElement;
 const cbClouds = document.getElementById('cb-clouds') as HTMLInputElement;
+const cbAo = document.getElementById('cb-ao') as HTMLInputElement;
+const selectResourcePack = document.getElementById('select-resource-pack') as HTMLSelectElement;
+const rangeRenderDistance = document.getElementById('range-render-distance') as HTMLInputElement;
+const renderDistanceValue = document.getElementById('render-distance-value')!;
 
 function showMainMenu() {
     isPaused = true;
@@ -1461,11 +1959,14 @@ function showMainMenu() {
     mainMenu.style.display = 'flex';
     pauseMenu.style.display = 'none';
     settingsMenu.style.display = 'none';
+    worldsMenu.style.display = 'none';
+    createWorldMenu.style.display = 'none';
     inventoryMenu.style.display = 'none';
     document.getElementById('ui-container')!.style.display = 'none';
     if (isMobile) document.getElementById('mobile-ui')!.style.display = 'none';
     
     controls.unlock();
+    updateContinueButton();
 }
 
 function showPauseMenu() {
@@ -1516,46 +2017,36 @@ function togglePauseMenu() {
     }
 }
 
-async function startGame(loadSave: boolean) {
+async function startGame(info: WorldInfo) {
     if (!isMobile) {
         // Must lock immediately on user gesture
         controls.lock();
     }
     
     // Show Loading
-    btnNewGame.innerText = "Loading...";
     btnContinue.innerText = "Loading...";
     
-    console.log("Starting game...", loadSave ? "(Loading)" : "(New Game)");
+    console.log(`Starting game "${info.name}"...`);
     
     try {
-        if (!loadSave) {
-            await world.deleteWorld();
-            // Reset player state
-            playerHP = 20;
-            updateHealthUI();
-            controls.object.position.set(8, 20, 20);
-            velocity.set(0, 0, 0);
-            // Clear inventory
-            for(let i=0; i<36; i++) {
-                inventorySlots[i] = { id: 0, count: 0 };
-            }
-            refreshInventoryUI();
+        const data = await world.loadWorld(info.dbName, info.seed);
+        // Health isn't saved, every world starts at full (not with the last world's)
+        playerHP = 20;
+        updateHealthUI();
+        if (data.playerPosition) {
+            controls.object.position.copy(data.playerPosition);
+            velocity.set(0, 0, 0); 
         } else {
-            const data = await world.loadWorld();
-            if (data.playerPosition) {
-                controls.object.position.copy(data.playerPosition);
-                velocity.set(0, 0, 0); 
-            }
-            if (data.inventory) {
-                for(let i=0; i<36; i++) {
-                    if (data.inventory[i]) {
-                        inventorySlots[i] = data.inventory[i];
-                    }
-                }
-                refreshInventoryUI();
-            }
+            // Never saved: fresh player at spawn
+            moveToSpawn(8, 20);
+        }
+        for(let i=0; i<36; i++) {
+            inventorySlots[i] = readItemStack(data.inventory?.[i]);
         }
+        refreshInventoryUI();
+
+        currentWorld = info;
+        worldSlots.update(info.id, { lastPlayed: Date.now() });
 
         isGameStarted = true;
         isPaused = false;
@@ -1563,6 +2054,8 @@ async function startGame(loadSave: boolean) {
         mainMenu.style.display = 'none';
         pauseMenu.style.display = 'none';
         settingsMenu.style.display = 'none'; // Ensure settings are closed
+        worldsMenu.style.display = 'none';
+        createWorldMenu.style.display = 'none';
         document.getElementById('ui-container')!.style.display = 'flex';
         if (isMobile) {
             document.getElementById('mobile-ui')!.style.display = 'block';
@@ -1575,11 +2068,188 @@ async function startGame(loadSave: boolean) {
         // Unlock if failed so user can see alert/menu
         if (!isMobile) controls.unlock();
     } finally {
-        btnNewGame.innerText = "New Game";
         btnContinue.innerText = "Continue";
     }
 }
 
+// One save at a time: a save asked for while a commit is in flight runs once after it
+let saveInFlight: Promise<void> | null = null;
+let saveQueued: Promise<void> | null = null;
+
+function saveGame(): Promise<void> {
+    if (saveQueued) return saveQueued;
+    if (saveInFlight) {
+        saveQueued = saveInFlight.catch(() => {}).then(() => {
+            saveQueued = null;
+            return saveGame();
+        });
+        return saveQueued;
+    }
+    saveInFlight = writeSave().finally(() => { saveInFlight = null; });
+    return saveInFlight;
+}
+
+// Saves nobody waits for (autosave, closing the inventory, leaving the page)
+function saveInBackground() {
+    saveGame().catch(e => {
+        console.error('Failed to save world:', e);
+        showHotbarLabel('Could not save the world');
+    });
+}
+
+async function writeSave() {
+    if (!currentWorld) return;
+    const id = currentWorld.id;
+    const thumbnail = captureThumbnail(); // Before awaiting, the page may be going away
+    await world.saveWorld({
+        position: controls.object.position,
+        inventory: inventorySlots
+    });
+    await worldSlots.update(id, { lastPlayed: Date.now(), thumbnail });
+}
+
+// Small JPEG of the current view for the world list
+function captureThumbnail(): string {
+    renderer.render(scene, camera); // The drawing buffer is only readable right after rendering
+    const canvas = document.createElement('canvas');
+    canvas.width = 160;
+    canvas.height = 90;
+    canvas.getContext('2d')!.drawImage(renderer.domElement, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+// --- World Selection ---
+const worldSlots = new WorldSlots(storage, new DB(REGISTRY_DB_NAME, 'worlds'));
+let currentWorld: WorldInfo | null = null;
+
+const worldList = document.getElementById('world-list')!;
+const inputWorldName = document.getElementById('input-world-name') as HTMLInputElement;
+const inputWorldSeed = document.getElementById('input-world-seed') as HTMLInputElement;
+
+async function updateContinueButton() {
+    btnContinue.disabled = !(await worldSlots.getLatest());
+}
+
+async function showWorldsMenu() {
+    mainMenu.style.display = 'none';
+    createWorldMenu.style.display = 'none';
+    worldsMenu.style.display = 'flex';
+    await refreshWorldList();
+}
+
+async function refreshWorldList() {
+    const worlds = await worldSlots.list();
+    worldList.innerHTML = '';
+    if (worlds.length === 0) {
+        worldList.innerText = 'No worlds yet';
+        return;
+    }
+
+    for (const info of worlds) {
+        const entry = document.createElement('div');
+        entry.className = 'world-entry';
+
+        const thumb = document.createElement('div');
+        thumb.className = 'world-thumb';
+        if (info.thumbnail) thumb.style.backgroundImage = `url(${info.thumbnail})`;
+        entry.appendChild(thumb);
+
+        const details = document.createElement('div');
+        details.className = 'world-details';
+        const name = document.createElement('div');
+        name.className = 'world-name';
+        name.innerText = info.name;
+        const meta = document.createElement('div');
+        meta.innerText = `Seed: ${info.seed}\nCreated: ${formatDate(info.createdAt)}\nLast played: ${formatDate(info.lastPlayed)}`;
+        details.append(name, meta);
+        entry.appendChild(details);
+
+        const actions = document.createElement('div');
+        actions.className = 'world-actions';
+        const addAction = (label: string, onClick: () => void) => {
+            const btn = document.createElement('button');
+            btn.className = 'minecraft-btn small';
+            btn.innerText = label;
+            btn.addEventListener('click', onClick);
+            actions.appendChild(btn);
+        };
+        addAction('Play', () => startGame(info));
+        addAction('Rename', async () => {
+            const name = prompt('World name:', info.name)?.trim();
+            if (!name) return;
+            await worldSlots.rename(info.id, name);
+            refreshWorldList();
+        });
+        addAction('Duplicate', async () => {
+            try {
+                await worldSlots.duplicate(info.id);
+            } catch (e) {
+                alert('Could not duplicate world: ' + e);
+            }
+            refreshWorldList();
+        });
+        addAction('Export', () => exportWorld(info));
+        addAction('Delete', async () => {
+            if (!confirm(`Delete "${info.name}"? This can't be undone.`)) return;
+            await worldSlots.delete(info.id);
+            refreshWorldList();
+        });
+        entry.appendChild(actions);
+
+        worldList.appendChild(entry);
+    }
+}
+
+async function exportWorld(info: WorldInfo) {
+    try {
+        const blob = await worldSlots.exportWorld(info.id);
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = info.name.replace(/[^\w\- ]+/g, '_') + ARCHIVE_EXTENSION;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    } catch (e) {
+        alert('Could not export world: ' + e);
+    }
+}
+
+async function importWorld(file: File) {
+    try {
+        await worldSlots.importWorld(await file.arrayBuffer());
+    } catch (e) {
+        alert(`Could not import "${file.name}": ${(e as Error).message}`);
+    }
+    refreshWorldList();
+}
+
+function formatDate(time: number): string {
+    return new Date(time).toLocaleString();
+}
+
+function showCreateWorldMenu() {
+    worldsMenu.style.display = 'none';
+    createWorldMenu.style.display = 'flex';
+    inputWorldName.value = '';
+    inputWorldSeed.value = '';
+    inputWorldName.focus();
+}
+
+// Numbers are used as is, any other text is hashed, empty means random
+function parseSeed(text: string): number {
+    text = text.trim();
+    if (!text) return Math.floor(Math.random() * 2147483647);
+    if (/^-?\d+$/.test(text)) return Math.abs(parseInt(text)) % 2147483647;
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    return Math.abs(hash) % 2147483647;
+}
+
+async function createWorld() {
+    const name = inputWorldName.value.trim() || 'New World';
+    const info = await worldSlots.create(name, parseSeed(inputWorldSeed.value));
+    await startGame(info);
+}
+
 // Settings Logic
 cbShadows.addEventListener('change', () => {
     environment.setShadowsEnabled(cbShadows.checked);
@@ -1589,9 +2259,72 @@ cbClouds.addEventListener('change', () => {
     environment.setCloudsEnabled(cbClouds.checked);
 });
 
+cbAo.addEventListener('change', () => {
+    worldRenderer.setAmbientOcclusion(cbAo.checked);
+});
+
+// Resource packs: the choice is remembered across sessions
+const RESOURCE_PACK_KEY = 'resourcePack';
+
+async function initResourcePacks() {
+    for (const pack of await TextureAtlas.listResourcePacks()) {
+        const option = document.createElement('option');
+        option.value = pack.id;
+        option.innerText = pack.name;
+        selectResourcePack.appendChild(option);
+    }
+    const saved = localStorage.getItem(RESOURCE_PACK_KEY);
+    if (saved && Array.from(selectResourcePack.options).some(o => o.value === saved)) {
+        selectResourcePack.value = saved;
+        await applyResourcePack(saved);
+    }
+}
+
+async function applyResourcePack(id: string) {
+    await worldRenderer.atlas.loadResourcePack(id || null);
+    refreshInventoryUI(); // Icons are drawn from the tiles
+}
+
+selectResourcePack.addEventListener('change', () => {
+    localStorage.setItem(RESOURCE_PACK_KEY, selectResourcePack.value);
+    applyResourcePack(selectResourcePack.value);
+});
+initResourcePacks();
+
+function applyRenderDistance(distance: number) {
+    worldRenderer.setRenderDistance(distance);
+    const chunks = worldRenderer.getRenderDistance();
+    renderDistanceValue.innerText = chunks.toString();
+
+    // Fog ends where loaded terrain ends
+    const fog = scene.fog as THREE.Fog;
+    fog.far = chunks * CHUNK_SIZE;
+    fog.near = fog.far * 0.2;
+}
+
+rangeRenderDistance.addEventListener('input', () => {
+    applyRenderDistance(parseInt(rangeRenderDistance.value));
+});
+applyRenderDistance(parseInt(rangeRenderDistance.value));
+
 // Menu Listeners
-btnNewGame.addEventListener('click', () => startGame(false));
-btnContinue.addEventListener('click', () => startGame(true));
+btnWorlds.addEventListener('click', () => showWorldsMenu());
+btnContinue.addEventListener('click', async () => {
+    const latest = await worldSlots.getLatest();
+    if (latest) startGame(latest);
+});
+document.getElementById('btn-create-world')!.addEventListener('click', () => showCreateWorldMenu());
+const inputImportWorld = document.getElementById('input-import-world') as HTMLInputElement;
+inputImportWorld.accept = ARCHIVE_EXTENSION;
+document.getElementById('btn-import-world')!.addEventListener('click', () => inputImportWorld.click());
+inputImportWorld.addEventListener('change', () => {
+    const file = inputImportWorld.files?.[0];
+    inputImportWorld.value = ''; // Picking the same file again still fires change
+    if (file) importWorld(file);
+});
+document.getElementById('btn-back-worlds')!.addEventListener('click', () => showMainMenu());
+document.getElementById('btn-confirm-create')!.addEventListener('click', () => createWorld());
+document.getElementById('btn-cancel-create')!.addEventListener('click', () => showWorldsMenu());
 btnResume.addEventListener('click', () => hidePauseMenu());
 
 btnSettingsMain.addEventListener('click', () => showSettingsMenu(mainMenu));
@@ -1600,10 +2333,14 @@ btnBackSettings.addEventListener('click', () => hideSettingsMenu());
 
 btnExit.addEventListener('click', async () => {
     // Save
-    await world.saveWorld({
-        position: controls.object.position,
-        inventory: inventorySlots
-    });
+    try {
+        await saveGame();
+    } catch (e) {
+        console.error('Failed to save world:', e);
+        if (!confirm(`Could not save world: ${e}\nLeave without saving?`)) return;
+    }
+    world.closeWorld();
+    currentWorld = null;
     
     // Return to main menu
     showMainMenu();
@@ -1611,14 +2348,21 @@ btnExit.addEventListener('click', async () => {
 
 // Auto-save loop
 setInterval(() => {
-    if (isGameStarted && !isPaused) {
-        world.saveWorld({
-            position: controls.object.position,
-            inventory: inventorySlots
-        });
+    if (isGameStarted && !isPaused && !saveInFlight) {
+        saveInBackground();
     }
 }, 30000);
 
+// Best-effort flush when the tab is hidden or closed. The save is one transaction,
+// so if the browser cuts it short the last complete save is kept.
+function flushOnUnload() {
+    if (isGameStarted) saveInBackground();
+}
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushOnUnload();
+});
+window.addEventListener('pagehide', flushOnUnload);
+
 // Start Animation Loop immediately, but it will respect isPaused
 animate();
 